@@ -1,13 +1,115 @@
 'use client';
 
-import { useState } from 'react';
-import { solveMemoku, createEmptyGrid, SudokuGrid, StarCell } from '@/lib/solvers/memoku';
+import { useState, useEffect } from 'react';
+import {
+  createEmptyGrid,
+  createStandardLayout,
+  findConflicts,
+  getCandidateMasks,
+  getConstraintPlugin,
+  validateConstraints,
+  validateLayout,
+  CellRef,
+  MemokuConstraint,
+  MemokuLayout,
+  SudokuGrid,
+  StarCell,
+  SolutionStatus,
+  SUPPORTED_SIZES,
+} from '@/lib/solvers/memoku';
+import {
+  HintState,
+  HintStep,
+  Difficulty,
+  DifficultyRating,
+  TECHNIQUE_NAMES,
+  createHintState,
+  findNextStep,
+  applyStep,
+  hasContradiction,
+  isComplete,
+  gradeMemoku,
+} from '@/lib/solvers/memokuTechniques';
+import { DIFFICULTIES, GeneratedPuzzle } from '@/lib/solvers/memokuGenerator';
+import {
+  PracticeResult,
+  RecallScore,
+  createRecallGrid,
+  getRecallCells,
+  scoreRecall,
+  summarizePractice,
+} from '@/lib/solvers/memokuPractice';
 import { focusNextCell } from '@/lib/utils/gridFocus';
+import { formatMemokuText, parseMemokuText } from '@/lib/utils/puzzleText';
+import { randomSeed } from '@/lib/utils/random';
+import { decodeMemokuState, encodeMemokuState } from '@/lib/utils/shareLink';
+import { useSolver } from '@/lib/hooks/useSolver';
+import { useSharedPuzzle } from '@/lib/hooks/useSharedPuzzle';
+import SolverStatus from '@/components/SolverStatus';
+import PuzzleTextIO from '@/components/PuzzleTextIO';
+import CopyLinkButton from '@/components/CopyLinkButton';
 import buttonStyles from '@/styles/components/button.module.css';
+import inputStyles from '@/styles/components/input.module.css';
 import solverStyles from '@/styles/solver.module.css';
 import gridStyles from '@/styles/grid-solver.module.css';
 
+/**
+ * Manual pencil-mark changes for one cell, as digit bitmasks
+ * Kept separate from the computed candidates so they survive auto-updates
+ */
+interface MarkEdit {
+  added: number;
+  removed: number;
+}
+
+// Background colors for regions while editing them
+const REGION_COLORS = [
+  '#fee2e2', '#ffedd5', '#fef9c3', '#dcfce7', '#cffafe',
+  '#dbeafe', '#ede9fe', '#fce7f3', '#e5e7eb',
+];
+
+// Background colors for killer cages, cycled by cage
+const CAGE_COLORS = ['#fef3c7', '#e0f2fe', '#fce7f3', '#dcfce7', '#ede9fe', '#ffedd5'];
+
+const PRACTICE_STORAGE_KEY = 'memoku-practice-results';
+
+// Older sessions are dropped once the saved history reaches this size
+const MAX_SAVED_RESULTS = 100;
+
+type PracticePhase = 'memorize' | 'recall' | 'scored';
+
+/**
+ * Reads the saved practice results (none while rendering on the server)
+ */
+function loadPracticeResults(): PracticeResult[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(localStorage.getItem(PRACTICE_STORAGE_KEY) ?? '[]');
+  } catch (e) {
+    console.error('Failed to load practice results:', e);
+    return [];
+  }
+}
+
+type ConstraintTool = 'cage' | 'thermometer' | 'odd' | 'even';
+
+const CONSTRAINT_TOOLS: { tool: ConstraintTool; label: string }[] = [
+  { tool: 'cage', label: 'Killer Cage' },
+  { tool: 'thermometer', label: 'Thermometer' },
+  { tool: 'odd', label: 'Odd Cell' },
+  { tool: 'even', label: 'Even Cell' },
+];
+
 export default function MemokuPage() {
+  const [layout, setLayout] = useState<MemokuLayout>(createStandardLayout(9));
+  const [editingRegions, setEditingRegions] = useState(false);
+  const [activeRegion, setActiveRegion] = useState(0);
+  const [constraints, setConstraints] = useState<MemokuConstraint[]>([]);
+  const [constraintTool, setConstraintTool] = useState<ConstraintTool | null>(null);
+  // Cells picked so far for the cage or thermometer being drawn (bulb first)
+  const [pendingCells, setPendingCells] = useState<CellRef[]>([]);
+  const [cageSum, setCageSum] = useState('');
+  const [constraintError, setConstraintError] = useState('');
   const [grid, setGrid] = useState<SudokuGrid>(createEmptyGrid());
   const [solvedGrid, setSolvedGrid] = useState<SudokuGrid | null>(null);
   const [error, setError] = useState<string>('');
@@ -15,23 +117,82 @@ export default function MemokuPage() {
   const [selectedStarColor, setSelectedStarColor] = useState<'gold' | 'purple' | 'green' | null>(null);
   const [focusedCell, setFocusedCell] = useState<{ row: number; col: number } | null>(null);
   const [highlightedNumber, setHighlightedNumber] = useState<number | null>(null);
+  const [solveStatus, setSolveStatus] = useState<SolutionStatus | null>(null);
+  const [differingCells, setDifferingCells] = useState<{ row: number; col: number }[]>([]);
+  // Hint session: the grid with hints applied so far, and the step on display
+  const [hintState, setHintState] = useState<HintState | null>(null);
+  const [hintStep, setHintStep] = useState<HintStep | null>(null);
+  const [showCandidates, setShowCandidates] = useState(false);
+  const [editingMarks, setEditingMarks] = useState(false);
+  const [markEdits, setMarkEdits] = useState<Record<number, MarkEdit>>({});
+  // undefined until rated; null when the givens conflict
+  const [rating, setRating] = useState<DifficultyRating | null | undefined>(undefined);
+  const { solve, cancel, solving, progress } = useSolver('memoku');
+  const generator = useSolver('memokuGenerator');
+  const [targetDifficulty, setTargetDifficulty] = useState<Difficulty>('medium');
+  const [seedText, setSeedText] = useState('');
+  const [generateStars, setGenerateStars] = useState(true);
+  const [generated, setGenerated] = useState<GeneratedPuzzle | null>(null);
+  // Memory practice: study the solved grid, then fill it back in from memory
+  const [practiceRound, setPracticeRound] = useState<'running' | 'scored' | null>(null);
+  const [memorizeSeconds, setMemorizeSeconds] = useState(30);
+  // The solution hides, and the recall clock starts, at this time
+  const [hideAt, setHideAt] = useState(0);
+  const [now, setNow] = useState(0);
+  const [recallGrid, setRecallGrid] = useState<SudokuGrid | null>(null);
+  const [recallScore, setRecallScore] = useState<RecallScore | null>(null);
+  const [practiceResults, setPracticeResults] = useState<PracticeResult[]>(loadPracticeResults);
+  // Open a shared puzzle once the link is read (after hydration)
+  const shared = useSharedPuzzle(decodeMemokuState);
+  const [openedShare, setOpenedShare] = useState<typeof shared>(null);
+  if (shared !== openedShare) {
+    setOpenedShare(shared);
+    if (shared?.ok) {
+      setLayout(shared.value.layout);
+      setGrid(shared.value.grid);
+      setStars(shared.value.stars);
+      setConstraints(shared.value.constraints);
+    } else if (shared) {
+      setError(`Couldn't open the shared puzzle: ${shared.error}`);
+    }
+  }
+  const size = layout.size;
+  const layoutError = validateLayout(layout);
+  // Region editing and constraint drawing both take over cell clicks
+  const drawing = editingRegions || constraintTool !== null;
+  // Checked on every edit so typos show up before solving
+  const conflicts = layoutError ? [] : findConflicts(grid, layout, constraints);
+  // A running round shows the solution until the study time is up
+  let practicePhase: PracticePhase | null = practiceRound === 'scored' ? 'scored' : null;
+  if (practiceRound === 'running') {
+    practicePhase = now < hideAt ? 'memorize' : 'recall';
+  }
+
+  // Tick the clock while memorizing or recalling
+  useEffect(() => {
+    if (practiceRound !== 'running') return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [practiceRound]);
 
   const handleCellChange = (row: number, col: number, value: string) => {
     const newGrid = grid.map(r => [...r]);
+    resetHints();
+    setRating(undefined);
 
     // Handle keyboard shortcuts for stars
     const upperValue = value.toUpperCase();
     if (upperValue === 'Y') {
       handleStarButtonClick('gold');
-      focusNextCell(row, col, 9, 9);
+      focusNextCell(row, col, size, size);
       return;
     } else if (upperValue === 'P') {
       handleStarButtonClick('purple');
-      focusNextCell(row, col, 9, 9);
+      focusNextCell(row, col, size, size);
       return;
     } else if (upperValue === 'G') {
       handleStarButtonClick('green');
-      focusNextCell(row, col, 9, 9);
+      focusNextCell(row, col, size, size);
       return;
     }
 
@@ -39,9 +200,9 @@ export default function MemokuPage() {
     if (value === ' ') {
       newGrid[row][col] = null;
       setGrid(newGrid);
-      setSolvedGrid(null);
+      clearSolution();
       setError('');
-      focusNextCell(row, col, 9, 9);
+      focusNextCell(row, col, size, size);
       return;
     }
 
@@ -49,18 +210,18 @@ export default function MemokuPage() {
 
     if (value === '' || value === '0') {
       newGrid[row][col] = null;
-    } else if (num >= 1 && num <= 9) {
+    } else if (num >= 1 && num <= size) {
       newGrid[row][col] = num;
       setGrid(newGrid);
-      setSolvedGrid(null);
+      clearSolution();
       setError('');
       // Auto-tab to next cell
-      focusNextCell(row, col, 9, 9);
+      focusNextCell(row, col, size, size);
       return;
     }
 
     setGrid(newGrid);
-    setSolvedGrid(null);
+    clearSolution();
     setError('');
   };
 
@@ -106,21 +267,181 @@ export default function MemokuPage() {
     }
   };
 
-  const handleSolve = () => {
+  const resetHints = () => {
+    setHintState(null);
+    setHintStep(null);
+  };
+
+  const handleHint = () => {
+    // Each click applies the step on display and finds the next one
+    let state = hintState ?? createHintState(grid, layout, constraints);
+    if (hintStep) {
+      state = applyStep(state, hintStep);
+    }
+    setHintState(state);
+    setHintStep(findNextStep(state));
+  };
+
+  const getHintMessage = (): string => {
+    if (!hintState) return '';
+    if (isComplete(hintState)) return 'The puzzle is complete - no more hints needed.';
+    if (hasContradiction(hintState)) return 'The grid has a conflict, so no hint can be given. Check the givens.';
+    return 'No step found with the supported techniques. Use Solve to finish the puzzle.';
+  };
+
+  const describeRating = (result: DifficultyRating): string => {
+    const steps = `${result.steps} step${result.steps === 1 ? '' : 's'}`;
+    if (!result.solvedLogically) {
+      return `The supported techniques get stuck after ${steps}, so it needs more advanced techniques or guessing.`;
+    }
+    return result.hardestTechnique
+      ? `Hardest technique needed: ${TECHNIQUE_NAMES[result.hardestTechnique]}. Solved in ${steps}.`
+      : 'The grid is already complete.';
+  };
+
+  const handleNewPuzzle = async () => {
+    // A blank seed picks a random one, shown afterwards so it can be shared
+    const parsedSeed = parseInt(seedText, 10);
+    const seed = Number.isNaN(parsedSeed) ? randomSeed() : parsedSeed;
     setError('');
-    const solution = solveMemoku(grid);
 
-    if (solution.solved) {
-      setSolvedGrid(solution.grid);
-    } else {
-      setError(solution.error || 'Failed to solve puzzle');
-      setSolvedGrid(null);
+    try {
+      const puzzle = await generator.solve({ seed, difficulty: targetDifficulty, withStars: generateStars });
+      if (!puzzle) return;
+
+      // Generated puzzles always use the standard 9x9 layout
+      handleClear();
+      setLayout(createStandardLayout(9));
+      setEditingRegions(false);
+      setConstraints([]);
+      setGrid(puzzle.grid);
+      setStars(puzzle.stars);
+      setSeedText(String(puzzle.seed));
+      setGenerated(puzzle);
+    } catch (err) {
+      console.error('Error generating puzzle:', err);
+      setError('An error occurred while generating a puzzle');
     }
   };
 
-  const handleClear = () => {
-    setGrid(createEmptyGrid());
+  const handleImportText = (importedGrid: SudokuGrid) => {
+    // Pasted puzzles use the standard layout for their size
+    handleClear();
+    setLayout(createStandardLayout(importedGrid.length));
+    setEditingRegions(false);
+    setConstraints([]);
+    handleSelectTool(null);
+    setGrid(importedGrid);
+  };
+
+  const handleSolve = async () => {
+    setError('');
+    resetHints();
+
+    try {
+      const solution = await solve({ grid, layout, constraints });
+      if (!solution) return;
+
+      setSolveStatus(solution.status);
+      setDifferingCells(solution.differingCells ?? []);
+
+      if (solution.solved) {
+        setSolvedGrid(solution.grid);
+      } else {
+        setError(solution.error || 'Failed to solve puzzle');
+        clearSolution();
+      }
+    } catch (err) {
+      console.error('Error solving:', err);
+      setError('An error occurred while solving');
+    }
+  };
+
+  const handleStartPractice = () => {
+    if (!solvedGrid) return;
+    const start = Date.now();
+    setHighlightedNumber(null);
+    setRecallGrid(createRecallGrid(grid, solvedGrid, stars));
+    setRecallScore(null);
+    setHideAt(start + memorizeSeconds * 1000);
+    setNow(start);
+    setPracticeRound('running');
+  };
+
+  const handleHideNow = () => {
+    const hiddenAt = Date.now();
+    setHideAt(hiddenAt);
+    setNow(hiddenAt);
+  };
+
+  const handleRecallChange = (row: number, col: number, value: string) => {
+    if (!recallGrid) return;
+    const newGrid = recallGrid.map(r => [...r]);
+    const num = parseInt(value);
+
+    if (num >= 1 && num <= size) {
+      newGrid[row][col] = num;
+      setRecallGrid(newGrid);
+      focusNextCell(row, col, size, size);
+      return;
+    }
+
+    newGrid[row][col] = null;
+    setRecallGrid(newGrid);
+  };
+
+  const handleCheckRecall = () => {
+    if (!solvedGrid || !recallGrid) return;
+
+    const score = scoreRecall(grid, solvedGrid, recallGrid, stars);
+    const result: PracticeResult = {
+      date: new Date().toISOString(),
+      size,
+      memorizeSeconds,
+      recallMs: Date.now() - hideAt,
+      correct: score.correct,
+      total: score.total,
+      accuracy: score.accuracy,
+    };
+
+    const results = [...practiceResults, result].slice(-MAX_SAVED_RESULTS);
+    setPracticeResults(results);
+    localStorage.setItem(PRACTICE_STORAGE_KEY, JSON.stringify(results));
+    setRecallScore(score);
+    setPracticeRound('scored');
+  };
+
+  const handleStopPractice = () => {
+    setPracticeRound(null);
+    setRecallGrid(null);
+    setRecallScore(null);
+  };
+
+  // Any edit that clears the solution also ends the practice round
+  const clearSolution = () => {
     setSolvedGrid(null);
+    handleStopPractice();
+  };
+
+  const handleClearPracticeHistory = () => {
+    setPracticeResults([]);
+    localStorage.removeItem(PRACTICE_STORAGE_KEY);
+  };
+
+  const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+  };
+
+  const handleClear = () => {
+    setGrid(createEmptyGrid(size));
+    clearSolution();
+    setSolveStatus(null);
+    setDifferingCells([]);
+    resetHints();
+    setMarkEdits({});
+    setRating(undefined);
+    setGenerated(null);
     setError('');
     setStars([]);
     setSelectedStarColor(null);
@@ -128,8 +449,91 @@ export default function MemokuPage() {
     setHighlightedNumber(null);
   };
 
+  const handleSizeChange = (newSize: number) => {
+    handleClear();
+    setLayout(createStandardLayout(newSize));
+    setGrid(createEmptyGrid(newSize));
+    setActiveRegion(0);
+    setConstraints([]);
+    handleSelectTool(null);
+  };
+
+  const updateConstraints = (next: MemokuConstraint[]) => {
+    setConstraints(next);
+    clearSolution();
+    resetHints();
+    setRating(undefined);
+    setConstraintError('');
+  };
+
+  const handleSelectTool = (tool: ConstraintTool | null) => {
+    setConstraintTool(tool);
+    setPendingCells([]);
+    setConstraintError('');
+    if (tool) setEditingRegions(false);
+  };
+
+  const handleToggleDiagonals = () => {
+    const hasDiagonals = constraints.some(c => c.type === 'diagonal');
+    updateConstraints(hasDiagonals
+      ? constraints.filter(c => c.type !== 'diagonal')
+      : [...constraints, { type: 'diagonal' }]);
+  };
+
+  const handleDrawConstraint = (row: number, col: number) => {
+    if (constraintTool === 'odd' || constraintTool === 'even') {
+      // Clicking toggles the mark; a cell can't be both odd and even
+      const existing = constraints.find(c => c.type === 'parity' && c.cell.row === row && c.cell.col === col);
+      const rest = constraints.filter(c => c !== existing);
+      const same = existing?.type === 'parity' && existing.parity === constraintTool;
+      updateConstraints(same ? rest : [...rest, { type: 'parity', cell: { row, col }, parity: constraintTool }]);
+      return;
+    }
+
+    // Cages and thermometers are built cell by cell; clicking the last cell again removes it
+    const last = pendingCells[pendingCells.length - 1];
+    if (last && last.row === row && last.col === col) {
+      setPendingCells(pendingCells.slice(0, -1));
+    } else if (!pendingCells.some(c => c.row === row && c.col === col)) {
+      setPendingCells([...pendingCells, { row, col }]);
+    }
+  };
+
+  const handleFinishConstraint = () => {
+    const constraint: MemokuConstraint = constraintTool === 'cage'
+      ? { type: 'cage', cells: pendingCells, sum: parseInt(cageSum, 10) || 0 }
+      : { type: 'thermometer', cells: pendingCells };
+
+    const validationError = validateConstraints([constraint], size);
+    if (validationError) {
+      setConstraintError(validationError);
+      return;
+    }
+
+    updateConstraints([...constraints, constraint]);
+    setPendingCells([]);
+    setCageSum('');
+  };
+
   const handleCellClick = (row: number, col: number) => {
-    if (!solvedGrid) return;
+    if (constraintTool) {
+      handleDrawConstraint(row, col);
+      return;
+    }
+
+    // In region editing mode, clicking paints the cell with the active region
+    if (editingRegions) {
+      const regions = layout.regions.map(r => [...r]);
+      regions[row][col] = activeRegion;
+      setLayout({ ...layout, regions });
+      clearSolution();
+      resetHints();
+      setRating(undefined);
+      return;
+    }
+
+    // Highlighting digits would give away the solution while it's hidden
+    if (!solvedGrid || (practicePhase && practicePhase !== 'memorize')) return;
 
     const cellValue = solvedGrid[row][col];
     if (cellValue === null) return;
@@ -138,13 +542,81 @@ export default function MemokuPage() {
     setHighlightedNumber(highlightedNumber === cellValue ? null : cellValue);
   };
 
+  const handleToggleMark = (row: number, col: number, digit: number) => {
+    const cell = row * size + col;
+    const bit = 1 << (digit - 1);
+    const edit = markEdits[cell] ?? { added: 0, removed: 0 };
+    const shown = (candidateMasks[cell] & bit) !== 0;
+
+    // Undo an earlier manual change if there is one, otherwise record a new one
+    const next = shown
+      ? (edit.added & bit ? { ...edit, added: edit.added & ~bit } : { ...edit, removed: edit.removed | bit })
+      : (edit.removed & bit ? { ...edit, removed: edit.removed & ~bit } : { ...edit, added: edit.added | bit });
+
+    setMarkEdits({ ...markEdits, [cell]: next });
+  };
+
   const getStarForCell = (row: number, col: number): StarCell | undefined => {
     return stars.find(s => s.row === row && s.col === col);
   };
 
+  const inCells = (cells: CellRef[], row: number, col: number): boolean => {
+    return cells.some(c => c.row === row && c.col === col);
+  };
+
+  const cageIndexForCell = (row: number, col: number): number => {
+    return constraints
+      .filter(c => c.type === 'cage')
+      .findIndex(c => c.type === 'cage' && inCells(c.cells, row, col));
+  };
+
+  const getCellBackground = (row: number, col: number): React.CSSProperties | undefined => {
+    if (editingRegions) {
+      return { background: REGION_COLORS[layout.regions[row][col] % REGION_COLORS.length] };
+    }
+
+    const cageIndex = cageIndexForCell(row, col);
+    if (cageIndex !== -1 && !solvedGrid) {
+      return { background: CAGE_COLORS[cageIndex % CAGE_COLORS.length] };
+    }
+    return undefined;
+  };
+
+  /**
+   * Small markers drawn behind the digit: cage sums, thermometer bulbs and parity shapes
+   */
+  const renderConstraintMarkers = (row: number, col: number) => {
+    return constraints.map((constraint, index) => {
+      switch (constraint.type) {
+        case 'cage':
+          // The sum goes in the cage's first cell
+          return constraint.cells[0].row === row && constraint.cells[0].col === col ? (
+            <span key={index} className={gridStyles.cageSum}>{constraint.sum}</span>
+          ) : null;
+        case 'thermometer':
+          if (!inCells(constraint.cells, row, col)) return null;
+          return (
+            <span
+              key={index}
+              className={constraint.cells[0].row === row && constraint.cells[0].col === col ? gridStyles.thermoBulb : gridStyles.thermoTube}
+            />
+          );
+        case 'parity':
+          return constraint.cell.row === row && constraint.cell.col === col ? (
+            <span key={index} className={constraint.parity === 'odd' ? gridStyles.parityOdd : gridStyles.parityEven} />
+          ) : null;
+        default:
+          return null;
+      }
+    });
+  };
+
+  const isHintCell = (cells: { row: number; col: number }[], row: number, col: number): boolean => {
+    return cells.some(c => c.row === row && c.col === col);
+  };
+
   const getCellClassName = (row: number, col: number): string => {
     const star = getStarForCell(row, col);
-    const displayGrid = solvedGrid || grid;
     const hasValue = displayGrid[row][col] !== null;
     const wasEmpty = grid[row][col] === null;
     const cellValue = displayGrid[row][col];
@@ -160,6 +632,27 @@ export default function MemokuPage() {
       classes.push(gridStyles.cellHighlightGreen);
     }
 
+    // Highlight cells that differ between two valid solutions
+    if (solvedGrid && differingCells.some(c => c.row === row && c.col === col)) {
+      classes.push(gridStyles.cellHighlightOrange);
+    }
+
+    // Highlight the cells a hint is based on, its target, and any eliminations
+    if (hintStep) {
+      if (hintStep.placement && isHintCell([hintStep.placement], row, col)) {
+        classes.push(gridStyles.cellHighlightGreen);
+      } else if (isHintCell(hintStep.eliminations, row, col)) {
+        classes.push(gridStyles.cellHighlightRed);
+      } else if (isHintCell(hintStep.cells, row, col)) {
+        classes.push(gridStyles.cellHighlightOrange);
+      }
+    }
+
+    // After scoring, mark recalled cells that were blank or wrong
+    if (recallScore && inCells(recallScore.mistakes, row, col)) {
+      classes.push(gridStyles.cellHighlightRed);
+    }
+
     if (star && !hasValue) {
       switch (star.color) {
         case 'gold':
@@ -174,11 +667,29 @@ export default function MemokuPage() {
       }
     }
 
-    if ((col + 1) % 3 === 0 && col !== 8) {
+    // Shade the main diagonals for X-sudoku
+    if (constraints.some(c => c.type === 'diagonal') && (row === col || row + col === size - 1)) {
+      classes.push(gridStyles.diagonalCell);
+    }
+
+    if (!solvedGrid) {
+      const conflict = conflicts.find(c => inCells(c.cells, row, col));
+      if (conflict) {
+        classes.push(conflict.kind === 'duplicate' ? gridStyles.cellConflict : gridStyles.cellNoCandidates);
+      }
+    }
+
+    if (inCells(pendingCells, row, col)) {
+      classes.push(gridStyles.pendingCell);
+    }
+
+    // Thick borders wherever the region changes
+    const region = layout.regions[row][col];
+    if (col < size - 1 && layout.regions[row][col + 1] !== region) {
       classes.push(gridStyles.rightBorder);
     }
 
-    if ((row + 1) % 3 === 0 && row !== 8) {
+    if (row < size - 1 && layout.regions[row + 1][col] !== region) {
       classes.push(gridStyles.bottomBorder);
     }
 
@@ -193,6 +704,11 @@ export default function MemokuPage() {
       return { color: 'transparent', caretColor: 'transparent' };
     }
 
+    // Digits placed by hints
+    if (!solvedGrid && hintState && grid[row][col] === null && hintState.grid[row][col] !== null) {
+      return { color: '#2563eb', fontWeight: 'bold' };
+    }
+
     if (!solvedGrid) return {};
 
     const wasEmpty = grid[row][col] === null;
@@ -221,7 +737,18 @@ export default function MemokuPage() {
     return {};
   };
 
-  const displayGrid = solvedGrid || grid;
+  // Practice swaps the board for the memorized solution, then for the recall attempt
+  const practiceGrid = practicePhase === 'memorize' ? solvedGrid : recallGrid;
+  const displayGrid = practiceGrid || solvedGrid || hintState?.grid || grid;
+  const recallCells = practicePhase === 'recall' ? getRecallCells(grid, stars) : [];
+  const practiceSummary = summarizePractice(practiceResults);
+
+  // Pencil marks: computed from the digits on the board (or the hint session's
+  // candidates, which include eliminations), then adjusted by manual edits
+  const candidateMasks = (hintState?.candidates ?? getCandidateMasks(displayGrid, layout, constraints)).map((mask, cell) => {
+    const edit = markEdits[cell];
+    return edit ? (mask & ~edit.removed) | edit.added : mask;
+  });
 
   return (
     <div className={solverStyles.solverContainer}>
@@ -229,9 +756,149 @@ export default function MemokuPage() {
 
       <div className={solverStyles.infoBox}>
         <h2>How to use</h2>
-        <p>1. Enter the given numbers in the grid (1-9). Press space to leave a cell blank. The cursor will automatically advance.</p>
-        <p>2. To mark stars (up to 3): click a cell and click a star button, or press Y (Yellow), P (Purple), or G (Green)</p>
-        <p>3. Click Solve to find the solution</p>
+        <p>1. Pick a grid size (use Edit Regions for jigsaw-style boxes: choose a region number, then click cells to paint them), then enter the given numbers (1 to the grid size). Press space to leave a cell blank. The cursor will automatically advance.</p>
+        <p>2. For variants, turn on X-diagonals, or pick a constraint tool and click cells to draw killer cages, thermometers and odd/even cells</p>
+        <p>3. To mark stars (up to 3): click a cell and click a star button, or press Y (Yellow), P (Purple), or G (Green)</p>
+        <p>4. Turn on candidates to see the possible digits for each empty cell; in edit mode, click a digit to toggle its mark</p>
+        <p>5. Or generate a practice puzzle: pick a difficulty and click New Puzzle. Share the seed to give teammates the same puzzle</p>
+        <p>6. Click Solve to find the solution, or Hint to work through it one logical step at a time</p>
+        <p>7. Once solved, use Memory Practice to study the solution, then fill it back in from memory with the starred digits as anchors</p>
+      </div>
+
+      <div className={`${solverStyles.mb15} ${solverStyles.textCenter}`}>
+        <h3 className={solverStyles.sectionTitle}>Grid Layout</h3>
+        <div className={`${buttonStyles.buttonGroup} ${solverStyles.justifyCenter}`} style={{ alignItems: 'center', flexWrap: 'wrap' }}>
+          <select
+            value={size}
+            onChange={(e) => handleSizeChange(parseInt(e.target.value, 10))}
+            disabled={solving}
+            className={inputStyles.input}
+            style={{ width: 'auto' }}
+            aria-label="Grid size"
+          >
+            {SUPPORTED_SIZES.map(option => (
+              <option key={option} value={option}>{option}×{option}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              setEditingRegions(!editingRegions);
+              handleSelectTool(null);
+            }}
+            disabled={!!solvedGrid}
+            className={`${buttonStyles.button} ${buttonStyles.buttonSmall} ${editingRegions ? buttonStyles.buttonPrimary : buttonStyles.buttonSecondary}`}
+          >
+            {editingRegions ? 'Done Editing Regions' : 'Edit Regions'}
+          </button>
+          <button
+            onClick={() => setLayout(createStandardLayout(size))}
+            disabled={!!solvedGrid}
+            className={`${buttonStyles.button} ${buttonStyles.buttonSmall} ${buttonStyles.buttonSecondary}`}
+          >
+            Standard Boxes
+          </button>
+        </div>
+        {editingRegions && (
+          <div className={`${buttonStyles.buttonGroup} ${solverStyles.justifyCenter}`} style={{ marginTop: '0.75rem' }}>
+            {Array.from({ length: size }, (_, region) => (
+              <button
+                key={region}
+                onClick={() => setActiveRegion(region)}
+                className={`${buttonStyles.button} ${buttonStyles.buttonSmall}`}
+                style={{
+                  background: REGION_COLORS[region % REGION_COLORS.length],
+                  border: region === activeRegion ? '2px solid #4338ca' : '2px solid transparent',
+                }}
+                title={`Paint cells into region ${region + 1}`}
+              >
+                {region + 1}
+              </button>
+            ))}
+          </div>
+        )}
+        {layoutError && (
+          <p className={solverStyles.resultDescription} style={{ color: '#991b1b', marginTop: '0.75rem' }}>
+            {layoutError}
+          </p>
+        )}
+      </div>
+
+      <div className={`${solverStyles.mb15} ${solverStyles.textCenter}`}>
+        <h3 className={solverStyles.sectionTitle}>Variant Constraints</h3>
+        <div className={`${buttonStyles.buttonGroup} ${solverStyles.justifyCenter}`} style={{ flexWrap: 'wrap' }}>
+          <button
+            onClick={handleToggleDiagonals}
+            disabled={!!solvedGrid}
+            className={`${buttonStyles.button} ${buttonStyles.buttonSmall} ${constraints.some(c => c.type === 'diagonal') ? buttonStyles.buttonPrimary : buttonStyles.buttonSecondary}`}
+          >
+            X-Diagonals
+          </button>
+          {CONSTRAINT_TOOLS.map(({ tool, label }) => (
+            <button
+              key={tool}
+              onClick={() => handleSelectTool(constraintTool === tool ? null : tool)}
+              disabled={!!solvedGrid}
+              className={`${buttonStyles.button} ${buttonStyles.buttonSmall} ${constraintTool === tool ? buttonStyles.buttonPrimary : buttonStyles.buttonSecondary}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {(constraintTool === 'cage' || constraintTool === 'thermometer') && (
+          <div className={`${buttonStyles.buttonGroup} ${solverStyles.justifyCenter}`} style={{ marginTop: '0.75rem', alignItems: 'center' }}>
+            <span className={solverStyles.resultDescription} style={{ margin: 0 }}>
+              {constraintTool === 'cage'
+                ? `Click the cage's cells (${pendingCells.length} picked), then enter its sum.`
+                : `Click the cells from the bulb up (${pendingCells.length} picked).`}
+            </span>
+            {constraintTool === 'cage' && (
+              <input
+                type="text"
+                inputMode="numeric"
+                value={cageSum}
+                onChange={(e) => setCageSum(e.target.value.replace(/[^0-9]/g, ''))}
+                placeholder="Sum"
+                className={inputStyles.input}
+                style={{ width: '5rem' }}
+                aria-label="Cage sum"
+              />
+            )}
+            <button
+              onClick={handleFinishConstraint}
+              disabled={pendingCells.length === 0}
+              className={`${buttonStyles.button} ${buttonStyles.buttonSmall} ${buttonStyles.buttonSuccess}`}
+            >
+              Add {constraintTool === 'cage' ? 'Cage' : 'Thermometer'}
+            </button>
+          </div>
+        )}
+        {(constraintTool === 'odd' || constraintTool === 'even') && (
+          <p className={solverStyles.resultDescription} style={{ marginTop: '0.75rem' }}>
+            Click cells to mark them {constraintTool}; click again to remove the mark.
+          </p>
+        )}
+        {constraintError && (
+          <p className={solverStyles.resultDescription} style={{ color: '#991b1b', marginTop: '0.75rem' }}>
+            {constraintError}
+          </p>
+        )}
+        {constraints.length > 0 && (
+          <ul className={solverStyles.constraintList}>
+            {constraints.map((constraint, index) => (
+              <li key={index}>
+                {getConstraintPlugin(constraint).describe(constraint)}
+                <button
+                  onClick={() => updateConstraints(constraints.filter((_, i) => i !== index))}
+                  disabled={!!solvedGrid}
+                  className={solverStyles.constraintRemove}
+                  title="Remove constraint"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
       <div className={`${solverStyles.mb15} ${solverStyles.textCenter}`}>
@@ -264,17 +931,117 @@ export default function MemokuPage() {
         </div>
       </div>
 
+      <PuzzleTextIO
+        formatHint='One character per cell, row by row: digits for givens and "." for blanks (81 characters for 9×9, 36 for 6×6, 16 for 4×4). Line breaks are ignored.'
+        placeholder="53..7....6..195....98....6.8...6...34..8.3..17...2...6.6....28....419..5....8..79"
+        parse={parseMemokuText}
+        onImport={handleImportText}
+        exportPuzzle={() => formatMemokuText(grid)}
+        exportSolution={solvedGrid ? () => formatMemokuText(solvedGrid) : null}
+        disabled={solving || generator.solving}
+      />
+
+      <div className={`${solverStyles.mb15} ${solverStyles.textCenter}`}>
+        <h3 className={solverStyles.sectionTitle}>Practice Puzzle</h3>
+        <div className={`${buttonStyles.buttonGroup} ${solverStyles.justifyCenter}`} style={{ alignItems: 'center', flexWrap: 'wrap' }}>
+          <select
+            value={targetDifficulty}
+            onChange={(e) => setTargetDifficulty(e.target.value as Difficulty)}
+            className={inputStyles.input}
+            style={{ width: 'auto' }}
+            aria-label="Difficulty"
+          >
+            {DIFFICULTIES.map(difficulty => (
+              <option key={difficulty} value={difficulty}>
+                {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={seedText}
+            onChange={(e) => setSeedText(e.target.value.replace(/[^0-9]/g, ''))}
+            placeholder="Seed (optional)"
+            className={inputStyles.input}
+            style={{ width: '10rem' }}
+            aria-label="Seed"
+          />
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+            <input
+              type="checkbox"
+              checked={generateStars}
+              onChange={(e) => setGenerateStars(e.target.checked)}
+            />
+            Stars
+          </label>
+          <button
+            onClick={handleNewPuzzle}
+            disabled={solving || generator.solving}
+            className={`${buttonStyles.button} ${buttonStyles.buttonSuccess}`}
+          >
+            {generator.solving ? 'Generating...' : 'New Puzzle'}
+          </button>
+        </div>
+        {generated && (
+          <p className={solverStyles.resultDescription} style={{ marginTop: '0.75rem' }}>
+            Generated a {generated.rating.difficulty} puzzle from seed {generated.seed}
+            {generated.rating.solvedLogically && generated.rating.hardestTechnique
+              ? ` (hardest technique: ${TECHNIQUE_NAMES[generated.rating.hardestTechnique]})`
+              : ''}.
+          </p>
+        )}
+      </div>
+
+      {generator.solving && (
+        <SolverStatus
+          message="Generating puzzle..."
+          progress={generator.progress}
+          onCancel={generator.cancel}
+          progressLabel="clue removals tried"
+          className={solverStyles.mb15}
+        />
+      )}
+
+      <div className={`${buttonStyles.buttonGroup} ${solverStyles.mb15} ${solverStyles.justifyCenter}`}>
+        <button
+          onClick={() => {
+            setShowCandidates(!showCandidates);
+            setEditingMarks(false);
+          }}
+          disabled={!!solvedGrid}
+          className={`${buttonStyles.button} ${buttonStyles.buttonSmall} ${showCandidates ? buttonStyles.buttonPrimary : buttonStyles.buttonSecondary}`}
+        >
+          {showCandidates ? 'Hide Candidates' : 'Show Candidates'}
+        </button>
+        {showCandidates && (
+          <button
+            onClick={() => setEditingMarks(!editingMarks)}
+            disabled={!!solvedGrid}
+            className={`${buttonStyles.button} ${buttonStyles.buttonSmall} ${editingMarks ? buttonStyles.buttonPrimary : buttonStyles.buttonSecondary}`}
+          >
+            {editingMarks ? 'Done Editing Marks' : 'Edit Marks'}
+          </button>
+        )}
+      </div>
+
       <div className={`${solverStyles.mb15} ${solverStyles.textCenter}`}>
         <div className={gridStyles.gridContainer}>
-          <div className={gridStyles.sudokuGrid}>
+          <div className={gridStyles.sudokuGrid} style={{ gridTemplateColumns: `repeat(${size}, 1fr)` }}>
             {displayGrid.map((row, rowIndex) => (
               row.map((cell, colIndex) => {
                 const star = getStarForCell(rowIndex, colIndex);
+                const mask = candidateMasks[rowIndex * size + colIndex];
+                const showMarks = showCandidates && !solvedGrid && cell === null;
+                const editable = practicePhase === 'recall'
+                  ? inCells(recallCells, rowIndex, colIndex)
+                  : !solvedGrid && !drawing;
 
                 return (
                   <div
                     key={`${rowIndex}-${colIndex}`}
-                    className={`${getCellClassName(rowIndex, colIndex)} ${solverStyles.relative} ${solvedGrid ? solverStyles.cursorPointer : solverStyles.cursorDefault}`}
+                    className={`${getCellClassName(rowIndex, colIndex)} ${solverStyles.relative} ${solvedGrid || drawing ? solverStyles.cursorPointer : solverStyles.cursorDefault}`}
+                    style={getCellBackground(rowIndex, colIndex)}
                     onClick={() => handleCellClick(rowIndex, colIndex)}
                   >
                     {star && !solvedGrid ? (
@@ -284,16 +1051,38 @@ export default function MemokuPage() {
                         ★
                       </div>
                     ) : null}
+                    {renderConstraintMarkers(rowIndex, colIndex)}
+                    {showMarks && (
+                      <div
+                        className={`${gridStyles.candidateGrid} ${editingMarks ? gridStyles.candidateGridEditable : ''}`}
+                        style={{ gridTemplateColumns: `repeat(${Math.ceil(Math.sqrt(size))}, 1fr)` }}
+                      >
+                        {Array.from({ length: size }, (_, i) => i + 1).map(digit => {
+                          const marked = (mask & (1 << (digit - 1))) !== 0;
+                          return (
+                            <span
+                              key={digit}
+                              className={marked ? gridStyles.candidateDigit : gridStyles.candidateDigitOff}
+                              onClick={editingMarks ? () => handleToggleMark(rowIndex, colIndex, digit) : undefined}
+                            >
+                              {marked || editingMarks ? digit : ''}
+                            </span>
+                          );
+                        })}
+                      </div>
+                    )}
                     <input
                       type="text"
                       maxLength={1}
                       value={cell === null ? '' : cell}
-                      onChange={(e) => handleCellChange(rowIndex, colIndex, e.target.value)}
+                      onChange={(e) => practicePhase === 'recall'
+                        ? handleRecallChange(rowIndex, colIndex, e.target.value)
+                        : handleCellChange(rowIndex, colIndex, e.target.value)}
                       onFocus={() => handleCellFocus(rowIndex, colIndex)}
-                      disabled={!!solvedGrid}
+                      disabled={!editable}
                       style={{
                         ...getCellStyle(rowIndex, colIndex),
-                        pointerEvents: solvedGrid ? 'none' : 'auto'
+                        pointerEvents: editable ? 'auto' : 'none'
                       }}
                       data-row={rowIndex}
                       data-col={colIndex}
@@ -306,22 +1095,100 @@ export default function MemokuPage() {
         </div>
       </div>
 
+      {!solvedGrid && conflicts.length > 0 && (
+        <div className={solverStyles.resultSection} style={{
+          background: 'linear-gradient(135deg, rgba(239, 68, 68, 0.1) 0%, rgba(220, 38, 38, 0.1) 100%)',
+          border: '2px solid rgba(239, 68, 68, 0.3)'
+        }}>
+          <p style={{ color: '#991b1b', fontWeight: 600, margin: 0 }}>Check these entries:</p>
+          <ul className={solverStyles.uncoveredList}>
+            {conflicts.map(conflict => (
+              <li key={`${conflict.kind}-${conflict.cells.map(c => `${c.row},${c.col}`).join('-')}`}>
+                {conflict.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className={`${buttonStyles.buttonGroup} ${solverStyles.mb15} ${solverStyles.justifyCenter}`}>
         <button
           onClick={handleSolve}
-          disabled={!!solvedGrid}
+          disabled={!!solvedGrid || solving}
           className={`${buttonStyles.button} ${buttonStyles.buttonPrimary}`}
         >
-          Solve
+          {solving ? 'Solving...' : 'Solve'}
+        </button>
+        <button
+          onClick={handleHint}
+          disabled={!!solvedGrid || solving || !!layoutError || (!!hintState && !hintStep)}
+          className={`${buttonStyles.button} ${buttonStyles.buttonSuccess}`}
+        >
+          {hintStep ? 'Next Hint' : 'Hint'}
+        </button>
+        <button
+          onClick={() => setRating(gradeMemoku(grid, layout, constraints))}
+          disabled={solving || !!layoutError}
+          className={`${buttonStyles.button} ${buttonStyles.buttonSecondary}`}
+        >
+          Rate Difficulty
         </button>
         <button
           onClick={handleClear}
+          disabled={solving}
           className={`${buttonStyles.button} ${buttonStyles.buttonSecondary}`}
         >
           Clear
         </button>
+        <CopyLinkButton
+          getParams={() => encodeMemokuState({ grid, stars, layout, constraints })}
+          disabled={!!layoutError}
+        />
       </div>
 
+      {solving && (
+        <SolverStatus
+          message="Solving puzzle..."
+          progress={progress}
+          onCancel={cancel}
+          progressLabel="placements tried"
+          className={solverStyles.mb15}
+        />
+      )}
+
+      {rating !== undefined && (
+        <div className={`${solverStyles.resultSection} ${solverStyles.hintPanel}`}>
+          {rating ? (
+            <>
+              <h3 className={solverStyles.hintTechnique}>
+                Difficulty: {rating.difficulty.charAt(0).toUpperCase() + rating.difficulty.slice(1)}
+              </h3>
+              <p className={solverStyles.resultDescription}>{describeRating(rating)}</p>
+            </>
+          ) : (
+            <p className={solverStyles.resultDescription}>The givens conflict with each other, so the puzzle can&apos;t be rated.</p>
+          )}
+        </div>
+      )}
+
+      {hintState && !solvedGrid && (
+        <div className={`${solverStyles.resultSection} ${solverStyles.hintPanel}`}>
+          {hintStep ? (
+            <>
+              <h3 className={solverStyles.hintTechnique}>{TECHNIQUE_NAMES[hintStep.technique]}</h3>
+              <p className={solverStyles.resultDescription}>{hintStep.explanation}</p>
+              <p className={solverStyles.hintLegend}>
+                {hintStep.placement
+                  ? 'Click Next Hint to place the digit in the green cell.'
+                  : `Click Next Hint to remove ${hintStep.eliminations.length} candidate${hintStep.eliminations.length === 1 ? '' : 's'} from the red cells.`}
+              </p>
+            </>
+          ) : (
+            <p className={solverStyles.resultDescription}>{getHintMessage()}</p>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className={solverStyles.resultSection} style={{
           background: 'linear-gradient(135deg, rgba(239, 68, 68, 0.1) 0%, rgba(220, 38, 38, 0.1) 100%)',
@@ -331,11 +1198,127 @@ export default function MemokuPage() {
         </div>
       )}
 
-      {solvedGrid && (
+      {solvedGrid && solveStatus === 'unique' && (
         <div className={`${solverStyles.resultSection} ${solverStyles.coreResultSection}`}>
           <p className={`${solverStyles.successMessage} ${solverStyles['fontSize-lg']}`}>
             Puzzle solved successfully! 🎉
           </p>
+          <p className={solverStyles.resultDescription}>This puzzle has a unique solution.</p>
+        </div>
+      )}
+
+      {solvedGrid && solveStatus === 'multiple' && (
+        <div className={solverStyles.resultSection} style={{
+          background: 'linear-gradient(135deg, rgba(251, 146, 60, 0.1) 0%, rgba(234, 88, 12, 0.1) 100%)',
+          border: '2px solid rgba(251, 146, 60, 0.4)'
+        }}>
+          <p style={{ color: '#9a3412', fontWeight: 600, margin: 0 }}>
+            This puzzle has more than one solution, which usually means a given was mistyped or left out.
+            One solution is shown; the {differingCells.length} highlighted cells differ in another valid solution.
+          </p>
+        </div>
+      )}
+
+      {solvedGrid && (
+        <div className={`${solverStyles.resultSection} ${solverStyles.hintPanel}`}>
+          <h3 className={solverStyles.hintTechnique}>Memory Practice</h3>
+          {practicePhase === null && (
+            <>
+              <p className={solverStyles.resultDescription}>
+                Study the solved grid, then fill it back in from memory. Givens and starred digits stay on the board as anchors.
+              </p>
+              <div className={buttonStyles.buttonGroup} style={{ alignItems: 'center', flexWrap: 'wrap' }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+                  Study time (seconds)
+                  <input
+                    type="number"
+                    min={5}
+                    max={600}
+                    value={memorizeSeconds}
+                    onChange={(e) => setMemorizeSeconds(Math.min(600, Math.max(5, parseInt(e.target.value, 10) || 5)))}
+                    className={inputStyles.input}
+                    style={{ width: '6rem' }}
+                  />
+                </label>
+                <button
+                  onClick={handleStartPractice}
+                  className={`${buttonStyles.button} ${buttonStyles.buttonPrimary}`}
+                >
+                  Start Practice
+                </button>
+              </div>
+            </>
+          )}
+          {practicePhase === 'memorize' && (
+            <div className={buttonStyles.buttonGroup} style={{ alignItems: 'center', flexWrap: 'wrap' }}>
+              <p className={solverStyles.resultDescription} style={{ margin: 0 }}>
+                Memorize the grid! It hides in {formatDuration(hideAt - now)}.
+              </p>
+              <button
+                onClick={handleHideNow}
+                className={`${buttonStyles.button} ${buttonStyles.buttonSecondary}`}
+              >
+                Hide Now
+              </button>
+            </div>
+          )}
+          {practicePhase === 'recall' && recallGrid && (
+            <div className={buttonStyles.buttonGroup} style={{ alignItems: 'center', flexWrap: 'wrap' }}>
+              <p className={solverStyles.resultDescription} style={{ margin: 0 }}>
+                Fill in the grid from memory. Time: {formatDuration(now - hideAt)}
+                {' '}({recallCells.filter(({ row, col }) => recallGrid[row][col] !== null).length} / {recallCells.length} cells filled)
+              </p>
+              <button
+                onClick={handleCheckRecall}
+                className={`${buttonStyles.button} ${buttonStyles.buttonPrimary}`}
+              >
+                Check
+              </button>
+              <button
+                onClick={handleStopPractice}
+                className={`${buttonStyles.button} ${buttonStyles.buttonSecondary}`}
+              >
+                Give Up
+              </button>
+            </div>
+          )}
+          {practicePhase === 'scored' && recallScore && (
+            <>
+              <p className={solverStyles.resultDescription}>
+                {recallScore.correct} / {recallScore.total} cells correct ({Math.round(recallScore.accuracy * 100)}%)
+                in {formatDuration(practiceResults[practiceResults.length - 1]?.recallMs ?? 0)}.
+                {recallScore.mistakes.length > 0 ? ' Missed cells are shown in red.' : ' Perfect recall!'}
+              </p>
+              <div className={buttonStyles.buttonGroup}>
+                <button
+                  onClick={handleStartPractice}
+                  className={`${buttonStyles.button} ${buttonStyles.buttonPrimary}`}
+                >
+                  Try Again
+                </button>
+                <button
+                  onClick={handleStopPractice}
+                  className={`${buttonStyles.button} ${buttonStyles.buttonSecondary}`}
+                >
+                  Show Solution
+                </button>
+              </div>
+            </>
+          )}
+          {practiceSummary && (
+            <p className={solverStyles.hintLegend}>
+              {practiceSummary.sessions} session{practiceSummary.sessions === 1 ? '' : 's'} saved.
+              Best accuracy {Math.round(practiceSummary.bestAccuracy * 100)}%, average {Math.round(practiceSummary.averageAccuracy * 100)}%
+              {practiceSummary.fastestPerfectMs !== null ? `, fastest perfect recall ${formatDuration(practiceSummary.fastestPerfectMs)}` : ''}.
+              {' '}
+              <button
+                onClick={handleClearPracticeHistory}
+                className={`${buttonStyles.button} ${buttonStyles.buttonSmall} ${buttonStyles.buttonSecondary}`}
+              >
+                Clear History
+              </button>
+            </p>
+          )}
         </div>
       )}
     </div>
@@ -1,77 +1,126 @@
 'use client';
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { solveSpelltower, createEmptyGrid, Grid, Cell, CellType } from '@/lib/solvers/spelltower';
+import {
+  createEmptyGrid,
+  applyMove,
+  getClearedCells,
+  Grid,
+  Cell,
+  CellType,
+  CellPosition,
+  SpelltowerSolution,
+  WordPath,
+} from '@/lib/solvers/spelltower';
 import { focusNextCell } from '@/lib/utils/gridFocus';
+import { useSolver } from '@/lib/hooks/useSolver';
+import { useHydrated } from '@/lib/hooks/useHydrated';
+import { useSharedPuzzle } from '@/lib/hooks/useSharedPuzzle';
+import { formatSpelltowerText, formatWordList, parseSpelltowerText } from '@/lib/utils/puzzleText';
+import { decodeSpelltowerState, encodeSpelltowerState } from '@/lib/utils/shareLink';
+import SolverStatus from '@/components/SolverStatus';
+import PuzzleTextIO from '@/components/PuzzleTextIO';
+import CopyLinkButton from '@/components/CopyLinkButton';
 import buttonStyles from '@/styles/components/button.module.css';
 import solverStyles from '@/styles/solver.module.css';
 import gridStyles from '@/styles/grid-solver.module.css';
 
 const ROWS = 13;
 const COLS = 9;
-const STORAGE_KEY = 'spelltower-grid';
+const STORAGE_KEY = 'spelltower-grid-v2';
+// Grids saved before blank tiles existed, when the blank type marked an empty cell
+const LEGACY_STORAGE_KEY = 'spelltower-grid';
+
+// Search time after playing a word off the recommended sequence; the full budget is for the first solve
+const REPLAN_TIME_BUDGET_MS = 1000;
+
+/**
+ * Converts a grid saved before blank tiles existed, when cleared cells were stored as blanks
+ * Gravity kept cleared cells at the top of each column, so only the blanks above a column's
+ * highest letter become empty again; blanks below it were real blank tiles
+ */
+function convertLegacyGrid(grid: Grid): Grid {
+  const converted = grid.map(row => row.map(cell => ({ ...cell })));
+  for (let col = 0; col < COLS; col++) {
+    for (let row = 0; row < ROWS && converted[row][col].letter === ''; row++) {
+      converted[row][col] = { letter: '', type: 'letter' };
+    }
+  }
+  return converted;
+}
+
+/**
+ * Reads the saved grid, converting one saved under the legacy key
+ * The legacy entry is left in place; the save effect clears it once the new key is written
+ * @returns null when nothing usable was saved
+ */
+function loadSavedGrid(): Grid | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    return legacy ? convertLegacyGrid(JSON.parse(legacy)) : null;
+  } catch (e) {
+    console.error('Failed to load saved grid:', e);
+    return null;
+  }
+}
 
 interface GameState {
   grid: Grid;
-  solution: {
-    sequence: Array<{
-      word: string;
-      path: { row: number; col: number }[];
-      score: number;
-      hasRedTile: boolean;
-      hasStarredTile: boolean;
-    }>;
-    totalScore: number;
-    clearedAll: boolean;
-  } | null;
+  solution: SpelltowerSolution | null;
   totalScore: number;
 }
 
 export default function SpelltowerPage() {
   const [grid, setGrid] = useState<Grid>(createEmptyGrid());
-  const [solving, setSolving] = useState(false);
-  const [solution, setSolution] = useState<{
-    sequence: Array<{
-      word: string;
-      path: { row: number; col: number }[];
-      score: number;
-      hasRedTile: boolean;
-      hasStarredTile: boolean;
-    }>;
-    totalScore: number;
-    clearedAll: boolean;
-  } | null>(null);
+  const { solve, cancel, solving, progress } = useSolver('spelltower');
+  const [solution, setSolution] = useState<SpelltowerSolution | null>(null);
   const [selectedCellType, setSelectedCellType] = useState<CellType>('letter');
-  const [selectedWord, setSelectedWord] = useState<{ word: string; path: { row: number; col: number }[]; score: number } | null>(null);
-  const [hoveredWord, setHoveredWord] = useState<{ word: string; path: { row: number; col: number }[]; score: number } | null>(null);
+  const [selectedWord, setSelectedWord] = useState<WordPath | null>(null);
+  const [hoveredWord, setHoveredWord] = useState<WordPath | null>(null);
   const [totalScore, setTotalScore] = useState(0);
   const [history, setHistory] = useState<GameState[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
 
-  // Load from localStorage on mount (client-side only)
+  // Load the saved grid once hydrated (client-side only), before any shared grid replaces it
+  const hydrated = useHydrated();
+  const [loadedSave, setLoadedSave] = useState(false);
+  if (hydrated && !loadedSave) {
+    setLoadedSave(true);
+    const saved = loadSavedGrid();
+    if (saved) setGrid(saved);
+  }
+
+  // Open a shared grid once the link is read (after hydration); it takes the place of the saved one
+  const shared = useSharedPuzzle(decodeSpelltowerState);
+  const [openedShare, setOpenedShare] = useState<typeof shared>(null);
+  if (shared !== openedShare) {
+    setOpenedShare(shared);
+    if (shared?.ok) setGrid(shared.value);
+  }
+
+  // Report a broken link once the page is up
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        setGrid(JSON.parse(saved));
-      } catch (e) {
-        console.error('Failed to load saved grid:', e);
-      }
+    if (shared && !shared.ok) {
+      alert(`Couldn't open the shared puzzle: ${shared.error}`);
     }
-  }, []);
+  }, [shared]);
 
-  // Save grid to localStorage whenever it changes
+  // Save grid to localStorage whenever it changes, once the saved one has been read
   useEffect(() => {
+    if (!loadedSave) return;
     localStorage.setItem(STORAGE_KEY, JSON.stringify(grid));
-  }, [grid]);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }, [grid, loadedSave]);
 
   const handleCellLetterChange = (row: number, col: number, value: string) => {
     const newGrid = grid.map(r => r.map(c => ({ ...c })));
 
     // Allow space to clear a cell
     if (value === ' ') {
-      newGrid[row][col].letter = '';
-      newGrid[row][col].type = 'blank';
+      newGrid[row][col] = { letter: '', type: 'letter' };
       setGrid(newGrid);
       setSolution(null);
       // Auto-tab to next cell
@@ -91,8 +140,7 @@ export default function SpelltowerPage() {
       // Auto-tab to next cell
       focusNextCell(row, col, ROWS, COLS);
     } else {
-      newGrid[row][col].letter = '';
-      newGrid[row][col].type = 'blank';
+      newGrid[row][col] = { letter: '', type: 'letter' };
       setGrid(newGrid);
       setSolution(null);
     }
@@ -114,23 +162,23 @@ export default function SpelltowerPage() {
   };
 
   const handleSolve = async () => {
-    setSolving(true);
     setSolution(null);
     setSelectedWord(null);
 
     try {
       console.log('Starting solve with grid:', grid);
-      const result = await solveSpelltower(grid);
+      const result = await solve({ grid });
+      if (!result) return;
       console.log('Solver result:', result);
 
-      // Set total score to 0 when first solving
-      const initialSolution = { ...result, totalScore: 0 };
-      setSolution(initialSolution);
+      // Played score starts at 0 when first solving
+      setSolution(result);
+      setTotalScore(0);
 
       // Save initial state to history
       const initialState: GameState = {
         grid: grid.map(row => row.map(cell => ({ ...cell }))),
-        solution: initialSolution,
+        solution: result,
         totalScore: 0
       };
 
@@ -139,64 +187,33 @@ export default function SpelltowerPage() {
     } catch (error) {
       console.error('Error solving:', error);
       alert('An error occurred while solving');
-    } finally {
-      setSolving(false);
-    }
-  };
-
-  const applyGravity = (gridToModify: Grid): void => {
-    for (let col = 0; col < COLS; col++) {
-      // Collect non-blank cells from bottom to top
-      const nonBlankCells: Cell[] = [];
-      for (let row = ROWS - 1; row >= 0; row--) {
-        if (gridToModify[row][col].type !== 'blank' && gridToModify[row][col].letter !== '') {
-          nonBlankCells.push({ ...gridToModify[row][col] });
-        }
-      }
-
-      // Fill column from bottom with non-blank cells
-      for (let row = ROWS - 1; row >= 0; row--) {
-        const cellIndex = ROWS - 1 - row;
-        if (cellIndex < nonBlankCells.length) {
-          gridToModify[row][col] = nonBlankCells[cellIndex];
-        } else {
-          gridToModify[row][col] = { letter: '', type: 'blank' };
-        }
-      }
     }
   };
 
   const handleUseWord = async () => {
     if (!selectedWord || !solution) return;
 
-    // Create new grid with tiles removed
-    const newGrid = grid.map(row => row.map(cell => ({ ...cell })));
-
-    // Remove word path tiles
-    for (const { row, col } of selectedWord.path) {
-      newGrid[row][col] = { letter: '', type: 'blank' };
-    }
-
-    // Remove all bonus clear cells (5+ letter adjacent cells, red tile rows)
-    for (const { row, col } of adjacentClearCells) {
-      newGrid[row][col] = { letter: '', type: 'blank' };
-    }
-
-    // Apply gravity
-    applyGravity(newGrid);
+    // Clear the word and its bonus cells, then apply gravity
+    const { grid: newGrid } = applyMove(grid, selectedWord.path);
 
     // Update total score
     const newTotalScore = totalScore + selectedWord.score;
 
+    // Playing the recommended move keeps the rest of the recommendation; any other move needs a new one
+    const [nextMove, ...restOfSequence] = solution.sequence;
+    const followsPlan = nextMove?.word === selectedWord.word &&
+      nextMove.path.every((cell, i) => cell.row === selectedWord.path[i]?.row && cell.col === selectedWord.path[i]?.col);
+    const options = followsPlan ? { plan: restOfSequence } : { timeBudgetMs: REPLAN_TIME_BUDGET_MS };
+
     // Re-solve with new grid
-    setSolving(true);
     try {
-      const result = await solveSpelltower(newGrid);
+      const result = await solve({ grid: newGrid, options });
+      if (!result) return;
 
       // Create the new state that we're moving to
       const newState: GameState = {
         grid: newGrid.map(row => row.map(cell => ({ ...cell }))),
-        solution: { ...result, totalScore: newTotalScore },
+        solution: result,
         totalScore: newTotalScore
       };
 
@@ -208,14 +225,12 @@ export default function SpelltowerPage() {
 
       // Update to new state
       setGrid(newGrid);
-      setSolution({ ...result, totalScore: newTotalScore });
+      setSolution(result);
       setTotalScore(newTotalScore);
       setSelectedWord(null);
     } catch (error) {
       console.error('Error solving:', error);
       alert('An error occurred while solving');
-    } finally {
-      setSolving(false);
     }
   };
 
@@ -241,6 +256,11 @@ export default function SpelltowerPage() {
     setHistoryIndex(historyIndex + 1);
   };
 
+  const handleImportText = (importedGrid: Grid) => {
+    handleClear();
+    setGrid(importedGrid);
+  };
+
   const handleClear = () => {
     setGrid(createEmptyGrid());
     setSolution(null);
@@ -260,62 +280,19 @@ export default function SpelltowerPage() {
     return activeWord.path.some(p => p.row === row && p.col === col);
   }, [activeWord]);
 
-  // Get cells that would be cleared (adjacent for 5+ letter words, red rows, etc)
-  const adjacentClearCells = useMemo((): { row: number; col: number }[] => {
+  // Get cells that would be cleared beyond the path (adjacent for 5+ letter words, red rows, blanks)
+  const adjacentClearCells = useMemo((): CellPosition[] => {
     if (!activeWord) return [];
-
-    const clearCells: { row: number; col: number }[] = [];
-    const pathSet = new Set(activeWord.path.map(p => `${p.row},${p.col}`));
-
-    // Add adjacent cells for 5+ letter words
-    if (activeWord.word.length >= 5) {
-      for (const { row, col } of activeWord.path) {
-        // Check all 4 adjacent directions (not diagonals)
-        const adjacent = [
-          { row: row - 1, col },
-          { row: row + 1, col },
-          { row, col: col - 1 },
-          { row, col: col + 1 }
-        ];
-
-        for (const adj of adjacent) {
-          const key = `${adj.row},${adj.col}`;
-          if (
-            adj.row >= 0 && adj.row < ROWS &&
-            adj.col >= 0 && adj.col < COLS &&
-            !pathSet.has(key) &&
-            !clearCells.some(c => c.row === adj.row && c.col === adj.col)
-          ) {
-            clearCells.push(adj);
-          }
-        }
-      }
-    }
-
-    // Add entire rows for red tiles
-    for (const { row, col } of activeWord.path) {
-      if (grid[row][col].type === 'red') {
-        // Add all cells in this row
-        for (let c = 0; c < COLS; c++) {
-          const key = `${row},${c}`;
-          if (
-            !pathSet.has(key) &&
-            !clearCells.some(cell => cell.row === row && cell.col === c)
-          ) {
-            clearCells.push({ row, col: c });
-          }
-        }
-      }
-    }
-
-    return clearCells;
+    return getClearedCells(grid, activeWord.path).bonusCells;
   }, [activeWord, grid]);
 
   const getCellClassName = useCallback((cell: Cell, row: number, col: number): string => {
     const classes = [gridStyles.spelltowerCell];
 
-    if (cell.type === 'blank' || !cell.letter) {
+    if (cell.type === 'blank') {
       classes.push(gridStyles.cellTypeBlank);
+    } else if (!cell.letter) {
+      classes.push(gridStyles.cellTypeEmpty);
     } else {
       switch (cell.type) {
         case 'red':
@@ -346,7 +323,7 @@ export default function SpelltowerPage() {
       {!solution && (
         <div className={solverStyles.infoBox}>
           <h2>How to use</h2>
-          <p>1. Enter letters in the grid (9 columns × 13 rows). Press space for blank cells. The cursor will automatically advance when you enter a valid letter or space.</p>
+          <p>1. Enter letters in the grid (9 columns × 13 rows). Press space or backspace to clear a cell; use the Blank tool for blank tiles. The cursor will automatically advance when you enter a valid letter or space.</p>
           <p>2. Select a cell type and click cells to mark them as red or starred</p>
           <p>3. Click Solve to find the optimal word sequence</p>
         </div>
@@ -480,17 +457,31 @@ export default function SpelltowerPage() {
               >
                 Clear
               </button>
+              <CopyLinkButton getParams={() => encodeSpelltowerState(grid)} />
             </div>
           </div>
+
+          <div style={{ marginTop: '1.5rem' }}>
+            <PuzzleTextIO
+              formatHint='13 lines of 9 tiles, top row first. Add "!" after a letter for red or "*" for starred; use "#" for a blank tile and "." for an empty space.'
+              placeholder={'.........\n.........\nCAT*#DOG!..\n…'}
+              parse={parseSpelltowerText}
+              onImport={handleImportText}
+              exportPuzzle={() => formatSpelltowerText(grid)}
+              exportSolution={solution ? () => formatWordList(solution.sequence.map(move => move.word)) : null}
+              disabled={solving}
+              rows={13}
+            />
+          </div>
         </div>
 
         <div>
           {solving && (
-            <div className={solverStyles.solvingMessage}>
-              <p className={solverStyles.solvingText}>
-                Searching for optimal word sequence... This may take a moment.
-              </p>
-            </div>
+            <SolverStatus
+              message="Searching for optimal word sequence..."
+              progress={progress}
+              onCancel={cancel}
+            />
           )}
 
           {solution && (
@@ -501,10 +492,46 @@ export default function SpelltowerPage() {
                 </div>
               </div>
 
+              {solution.sequence.length > 0 && (
+                <div className={solverStyles.sequencePanel}>
+                  <h2 className={solverStyles.sequenceTitle}>Recommended Sequence</h2>
+                  <p className={solverStyles.sequenceSummary}>
+                    Projected final score: {totalScore + solution.totalScore}
+                    {solution.clearedAll ? ' · clears the board' : ' · leaves tiles on the board'}
+                  </p>
+                  <ol className={solverStyles.sequenceList}>
+                    {solution.sequence.map((move, idx) => (
+                      <li
+                        key={idx}
+                        className={idx === 0 ? solverStyles.sequenceNextMove : ''}
+                        onClick={idx === 0 ? () => setSelectedWord(move) : undefined}
+                        title={idx === 0 ? 'Select this word to play it next' : undefined}
+                      >
+                        <span className={solverStyles.sequenceWord}>{move.word}</span>
+                        <span className={solverStyles.wordItemScore}>+{move.score}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {activeWord && (
+                <div className={solverStyles.scoreBreakdown}>
+                  <span className={solverStyles.scoreBreakdownWord}>{activeWord.word}</span>
+                  <span>
+                    ({activeWord.breakdown.wordValue} letters
+                    {activeWord.breakdown.bonusValue > 0 && ` + ${activeWord.breakdown.bonusValue} bonus`})
+                    {' × '}{activeWord.breakdown.lengthMultiplier} length
+                    {activeWord.breakdown.starMultiplier > 1 && ` × ${activeWord.breakdown.starMultiplier} stars`}
+                    {' = '}<strong>{activeWord.breakdown.total}</strong>
+                  </span>
+                </div>
+              )}
+
               <div className={`${solverStyles.wordListContainer} ${solverStyles.allWordsSection}`}>
-                <h2 style={{ margin: '1rem 1.5rem', flexShrink: 0, color: '#1e40af', fontSize: '1.5rem', fontWeight: 700 }}>Words Found ({solution.sequence.length}):</h2>
+                <h2 style={{ margin: '1rem 1.5rem', flexShrink: 0, color: '#1e40af', fontSize: '1.5rem', fontWeight: 700 }}>Words Found ({solution.words.length}):</h2>
                 <div className={solverStyles.wordListContent} style={{ backgroundColor: 'transparent' }}>
-                  {solution.sequence.map((wordPath, idx) => {
+                  {solution.words.map((wordPath, idx) => {
                     const isSelected = selectedWord?.word === wordPath.word &&
                                       selectedWord?.path[0].row === wordPath.path[0].row &&
                                       selectedWord?.path[0].col === wordPath.path[0].col;
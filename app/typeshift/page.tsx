@@ -1,7 +1,14 @@
 'use client';
 
-import { useState } from 'react';
-import { solveTypeshift, TypeshiftColumn } from '@/lib/solvers/typeshift';
+import { useState, useEffect } from 'react';
+import { TypeshiftColumn, TypeshiftSolution, UncoveredSlot } from '@/lib/solvers/typeshift';
+import { useSolver } from '@/lib/hooks/useSolver';
+import { useSharedPuzzle } from '@/lib/hooks/useSharedPuzzle';
+import { formatTypeshiftText, formatWordList, parseTypeshiftText } from '@/lib/utils/puzzleText';
+import { decodeTypeshiftState, encodeTypeshiftState } from '@/lib/utils/shareLink';
+import SolverStatus from '@/components/SolverStatus';
+import PuzzleTextIO from '@/components/PuzzleTextIO';
+import CopyLinkButton from '@/components/CopyLinkButton';
 import buttonStyles from '@/styles/components/button.module.css';
 import inputStyles from '@/styles/components/input.module.css';
 import solverStyles from '@/styles/solver.module.css';
@@ -10,13 +17,27 @@ export default function TypeshiftPage() {
   const [columns, setColumns] = useState<TypeshiftColumn[]>(
     Array(5).fill(null).map(() => ({ letters: [''] }))
   );
-  const [solving, setSolving] = useState(false);
-  const [solution, setSolution] = useState<{
-    allWords: string[];
-    coreWords: string[];
-    usedLettersCount: number;
-    totalLetters: number;
-  } | null>(null);
+  const { solve, cancel, solving, progress } = useSolver('typeshift');
+  const [solution, setSolution] = useState<TypeshiftSolution | null>(null);
+  const [selectedCoreSet, setSelectedCoreSet] = useState(0);
+  const [hoveredCoreWord, setHoveredCoreWord] = useState<number | null>(null);
+  // Columns exactly as they were solved, so the tile map matches the solution
+  const [solvedColumns, setSolvedColumns] = useState<TypeshiftColumn[]>([]);
+
+  // Open shared columns once the link is read (after hydration)
+  const shared = useSharedPuzzle(decodeTypeshiftState);
+  const [openedShare, setOpenedShare] = useState<typeof shared>(null);
+  if (shared !== openedShare) {
+    setOpenedShare(shared);
+    if (shared?.ok) setColumns(shared.value);
+  }
+
+  // Report a broken link once the page is up
+  useEffect(() => {
+    if (shared && !shared.ok) {
+      alert(`Couldn't open the shared puzzle: ${shared.error}`);
+    }
+  }, [shared]);
 
   const handleColumnTextChange = (colIndex: number, value: string) => {
     const newColumns = [...columns];
@@ -37,8 +58,12 @@ export default function TypeshiftPage() {
     }
   };
 
+  const handleImportText = (importedColumns: TypeshiftColumn[]) => {
+    setColumns(importedColumns);
+    setSolution(null);
+  };
+
   const handleSolve = async () => {
-    setSolving(true);
     setSolution(null);
 
     try {
@@ -49,25 +74,37 @@ export default function TypeshiftPage() {
 
       if (validColumns.length === 0) {
         alert('Please enter letters in at least one column');
-        setSolving(false);
         return;
       }
 
-      const result = await solveTypeshift(validColumns);
-      setSolution(result);
+      const result = await solve({ columns: validColumns });
+      if (result) {
+        setSolution(result);
+        setSolvedColumns(validColumns);
+        setSelectedCoreSet(0);
+        setHoveredCoreWord(null);
+      }
     } catch (error) {
       console.error('Error solving:', error);
       alert('An error occurred while solving');
-    } finally {
-      setSolving(false);
     }
   };
 
+  const describeUncoveredSlot = (slot: UncoveredSlot): string => {
+    const tile = `Column ${slot.column + 1}, letter ${slot.slot + 1} (${slot.letter})`;
+    return slot.reason === 'no-word'
+      ? `${tile} is not used by any valid word.`
+      : `${tile} can't be covered together with the other letters in ${solution?.coreSize ?? 0} words.`;
+  };
+
   const handleReset = () => {
     setColumns(Array(5).fill(null).map(() => ({ letters: [''] })));
     setSolution(null);
   };
 
+  // Core set currently shown (the top-ranked one unless an alternative is picked)
+  const coreSet = solution ? (solution.coreSets[selectedCoreSet] ?? solution.coreWords) : [];
+
   return (
     <div className={solverStyles.solverContainer}>
       <h1 className={`${solverStyles.solverTitle} ${solverStyles.mb2}`}>Typeshift Solver</h1>
@@ -149,7 +186,17 @@ export default function TypeshiftPage() {
         </div>
       </div>
 
-      <div className={`${solverStyles.mb2} ${solverStyles.justifyCenter}`} style={{ display: 'flex' }}>
+      <PuzzleTextIO
+        formatHint="One word per column, read top to bottom, separated by spaces."
+        placeholder="MWSB LAIT SGOE"
+        parse={parseTypeshiftText}
+        onImport={handleImportText}
+        exportPuzzle={() => formatTypeshiftText(columns)}
+        exportSolution={solution ? () => formatWordList(coreSet.map(({ word }) => word)) : null}
+        disabled={solving}
+      />
+
+      <div className={`${solverStyles.mb2} ${solverStyles.justifyCenter}`} style={{ display: 'flex', gap: '0.75rem' }}>
         <button
           onClick={handleSolve}
           disabled={solving}
@@ -158,28 +205,103 @@ export default function TypeshiftPage() {
         >
           {solving ? 'Solving...' : 'Solve'}
         </button>
+        <CopyLinkButton getParams={() => encodeTypeshiftState(columns)} />
       </div>
 
+      {solving && (
+        <SolverStatus
+          message="Searching for valid words..."
+          progressLabel="prefixes checked"
+          progress={progress}
+          onCancel={cancel}
+          className={solverStyles.mb15}
+        />
+      )}
+
       {solution && (
         <div>
           <div className={`${solverStyles.resultSection} ${solverStyles.coreResultSection}`}>
             <h2>Core Solution</h2>
             <p className={solverStyles.resultDescription}>
-              Minimal core solution ({solution.coreWords.length} words):
+              {solution.coreComplete
+                ? `Minimal core solution (${solution.coreWords.length} words)${solution.coreSets.length > 1 ? `, option ${selectedCoreSet + 1} of ${solution.coreSets.length}` : ''}:`
+                : `No set of ${solution.coreSize} words covers every letter. Best partial set (${solution.coreWords.length} words):`}
+            </p>
+            <p className={solverStyles.resultDescription}>
+              Letters covered: {solution.usedLettersCount} / {solution.totalLetters}
             </p>
             <div className={solverStyles.wordGrid}>
-              {solution.coreWords.map((word, idx) => (
-                <div key={idx} className={`${solverStyles.wordCard} ${solverStyles.coreWordCard}`}>
-                  {word}
+              {coreSet.map((coreWord, idx) => (
+                <div
+                  key={idx}
+                  className={`${solverStyles.wordCard} ${solverStyles.coreWordCard}`}
+                  onMouseEnter={() => setHoveredCoreWord(idx)}
+                  onMouseLeave={() => setHoveredCoreWord(null)}
+                >
+                  <span className={solverStyles.coreWordIndex}>{idx + 1}</span>
+                  {coreWord.word}
+                </div>
+              ))}
+            </div>
+
+            <h3 className={solverStyles.coreSetListTitle}>Tiles used by each core word:</h3>
+            <div className={solverStyles.tileMap}>
+              {solvedColumns.map((column, colIndex) => (
+                <div key={colIndex} className={solverStyles.tileMapColumn}>
+                  {column.letters.map((letter, slot) => {
+                    const users = coreSet
+                      .map((coreWord, idx) => (coreWord.slots[colIndex] === slot ? idx : -1))
+                      .filter(idx => idx !== -1);
+                    const highlighted = hoveredCoreWord !== null && users.includes(hoveredCoreWord);
+
+                    return (
+                      <div
+                        key={slot}
+                        className={`${solverStyles.tileMapTile} ${users.length === 0 ? solverStyles.tileMapTileUnused : ''} ${highlighted ? solverStyles.tileMapTileHighlighted : ''}`}
+                      >
+                        {letter}
+                        <span className={solverStyles.tileMapUsers}>
+                          {users.map(idx => idx + 1).join(',')}
+                        </span>
+                      </div>
+                    );
+                  })}
                 </div>
               ))}
             </div>
+            {solution.coreSets.length > 1 && (
+              <div className={solverStyles.coreSetList}>
+                <h3 className={solverStyles.coreSetListTitle}>
+                  Alternative core sets ({solution.coreSets.length}), most common words first:
+                </h3>
+                {solution.coreSets.map((set, idx) => (
+                  <button
+                    key={set.map(({ word }) => word).join(' ')}
+                    onClick={() => setSelectedCoreSet(idx)}
+                    className={`${solverStyles.coreSetItem} ${idx === selectedCoreSet ? solverStyles.coreSetItemSelected : ''}`}
+                  >
+                    <span className={solverStyles.coreSetRank}>{idx + 1}.</span>
+                    {set.map(({ word }) => word).join(', ')}
+                  </button>
+                ))}
+              </div>
+            )}
+            {solution.uncoveredSlots.length > 0 && (
+              <ul className={solverStyles.uncoveredList}>
+                {solution.uncoveredSlots.map(slot => (
+                  <li key={`${slot.column}-${slot.slot}`}>{describeUncoveredSlot(slot)}</li>
+                ))}
+              </ul>
+            )}
           </div>
 
           <div className={`${solverStyles.resultSection} ${solverStyles.allWordsSection}`}>
             <h2>
               All Valid Words ({solution.allWords.length})
             </h2>
+            <p className={solverStyles.resultDescription}>
+              Checked {solution.candidatesChecked.toLocaleString()} candidate prefixes.
+            </p>
             <div className={solverStyles.allWordsGrid}>
               {solution.allWords.map((word, idx) => (
                 <div key={idx} className={`${solverStyles.wordCard} ${solverStyles.allWordCard}`}>
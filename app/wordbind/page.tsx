@@ -1,16 +1,70 @@
 'use client';
 
 import { useState } from 'react';
-import { solveWordbind } from '@/lib/solvers/wordbind';
+import {
+  DEFAULT_WORDBIND_RULES,
+  WordbindRules,
+  WordbindSolution,
+  WordbindWord,
+  validateWordbindRules,
+} from '@/lib/solvers/wordbind';
+import { useSolver } from '@/lib/hooks/useSolver';
+import { useSharedPuzzle } from '@/lib/hooks/useSharedPuzzle';
+import { formatWordList, parseWordbindText } from '@/lib/utils/puzzleText';
+import {
+  EMPTY_WORD_FILTER,
+  TextMatchMode,
+  WordFilter,
+  WordSort,
+  compareWords,
+  matchesWordFilter,
+} from '@/lib/utils/wordFilter';
+import { decodeWordbindState, encodeWordbindState } from '@/lib/utils/shareLink';
+import SolverStatus from '@/components/SolverStatus';
+import PuzzleTextIO from '@/components/PuzzleTextIO';
+import CopyLinkButton from '@/components/CopyLinkButton';
 import buttonStyles from '@/styles/components/button.module.css';
 import inputStyles from '@/styles/components/input.module.css';
 import solverStyles from '@/styles/solver.module.css';
 
+const SORT_OPTIONS: { sort: WordSort; label: string }[] = [
+  { sort: 'length', label: 'Longest First' },
+  { sort: 'alphabetical', label: 'A-Z' },
+  { sort: 'common', label: 'Most Common' },
+];
+
+const MATCH_MODES: { mode: TextMatchMode; label: string }[] = [
+  { mode: 'contains', label: 'Contains' },
+  { mode: 'starts', label: 'Starts with' },
+  { mode: 'ends', label: 'Ends with' },
+];
+
 export default function WordbindPage() {
   const [sourceText, setSourceText] = useState('');
-  const [solving, setSolving] = useState(false);
-  const [solution, setSolution] = useState<{ words: string[]; totalWords: number } | null>(null);
+  const { solve, cancel, solving, progress } = useSolver('wordbind');
+  const [solution, setSolution] = useState<WordbindSolution | null>(null);
+  // Source text exactly as it was solved, so letter indices match the solution
+  const [solvedSource, setSolvedSource] = useState('');
+  const [selectedWord, setSelectedWord] = useState<WordbindWord | null>(null);
+  const [hoveredWord, setHoveredWord] = useState<WordbindWord | null>(null);
+  const [filter, setFilter] = useState<WordFilter>(EMPTY_WORD_FILTER);
+  const [sort, setSort] = useState<WordSort>('length');
+  const [groupByLength, setGroupByLength] = useState(true);
   const [error, setError] = useState('');
+  const [rules, setRules] = useState<WordbindRules>(DEFAULT_WORDBIND_RULES);
+
+  // Open a shared phrase and its rules once the link is read (after hydration)
+  const shared = useSharedPuzzle(decodeWordbindState);
+  const [openedShare, setOpenedShare] = useState<typeof shared>(null);
+  if (shared !== openedShare) {
+    setOpenedShare(shared);
+    if (shared?.ok) {
+      setSourceText(shared.value.sourceText);
+      setRules(shared.value.rules);
+    } else if (shared) {
+      setError(`Couldn't open the shared puzzle: ${shared.error}`);
+    }
+  }
 
   const handleSolve = async () => {
     setError('');
@@ -27,22 +81,105 @@ export default function WordbindPage() {
       return;
     }
 
-    setSolving(true);
+    const rulesError = validateWordbindRules(rules);
+    if (rulesError) {
+      setError(rulesError);
+      return;
+    }
 
     try {
-      const result = await solveWordbind(sourceText);
-      setSolution(result);
+      const result = await solve({ sourceText, rules });
+      if (result) {
+        setSolution(result);
+        setSolvedSource(sourceText);
+        setSelectedWord(null);
+        setHoveredWord(null);
+      }
     } catch (err) {
       console.error('Error solving:', err);
       setError('An error occurred while solving');
-    } finally {
-      setSolving(false);
     }
   };
 
+  const handleImportText = (phrase: string) => {
+    setSourceText(phrase);
+    setSolution(null);
+    setError('');
+  };
+
+  const updateRules = (changes: Partial<WordbindRules>) => {
+    setRules({ ...rules, ...changes });
+    setSolution(null);
+  };
+
+  // Empty or non-numeric count inputs count as 0
+  const parseCount = (value: string): number => Math.max(0, parseInt(value, 10) || 0);
+
+  // The word whose letters are highlighted in the source (hovered or selected)
+  const activeWord = hoveredWord ?? selectedWord;
+
+  /**
+   * Source letters as tiles, with the active word's letters highlighted
+   * and a count on letters it doubles
+   */
+  const renderSourceTiles = () => (
+    <div className={`${solverStyles.tileMap} ${solverStyles.mb15}`}>
+      {Array.from(solvedSource.toUpperCase()).map((char, index) => {
+        if (!/[A-Z]/.test(char)) {
+          return <div key={index} style={{ width: '1rem' }} />;
+        }
+
+        const used = activeWord?.sourceIndices.includes(index) ?? false;
+        const copies = activeWord ? activeWord.doubledIndices.filter(i => i === index).length + 1 : 1;
+        return (
+          <div
+            key={index}
+            className={`${solverStyles.tileMapTile} ${used ? solverStyles.tileMapTileHighlighted : ''}`}
+          >
+            {char}
+            {used && copies > 1 && <span className={solverStyles.tileMapUsers}>×{copies}</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const filtering = filter.text.trim() !== '' || filter.pattern.trim() !== '';
+
+  const visibleWords = solution
+    ? solution.words
+      .filter(({ word }) => matchesWordFilter(word, filter))
+      .sort((a, b) => compareWords(sort)(a.word, b.word))
+    : [];
+
+  // Longest words first when grouped; one flat list otherwise
+  const wordGroups = groupByLength
+    ? Array.from(new Set(visibleWords.map(w => w.word.length)))
+      .sort((a, b) => b - a)
+      .map(length => ({
+        label: `${length}-letter words`,
+        words: visibleWords.filter(w => w.word.length === length),
+        total: solution?.words.filter(w => w.word.length === length).length ?? 0,
+      }))
+    : [{ label: filtering ? 'Matching words' : 'All words', words: visibleWords, total: solution?.totalWords ?? 0 }];
+
+  const renderWordCard = (result: WordbindWord) => (
+    <div
+      key={result.word}
+      className={`${solverStyles.wordCard} ${solverStyles.coreWordCard} ${solverStyles.cursorPointer} ${selectedWord?.word === result.word ? solverStyles.wordCardSelected : ''}`}
+      style={{ fontSize: '0.9375rem' }}
+      onMouseEnter={() => setHoveredWord(result)}
+      onMouseLeave={() => setHoveredWord(null)}
+      onClick={() => setSelectedWord(selectedWord?.word === result.word ? null : result)}
+    >
+      {result.word}
+    </div>
+  );
+
   const handleClear = () => {
     setSourceText('');
     setSolution(null);
+    setSelectedWord(null);
     setError('');
   };
 
@@ -58,7 +195,7 @@ export default function WordbindPage() {
         <ul style={{ listStyleType: 'disc', marginLeft: '2rem', marginTop: '0.5rem' }}>
           <li>Using letters from the source in the order they appear (left-to-right)</li>
           <li>Optionally using a letter twice to create a double letter</li>
-          <li>Not including the exact source words in the output</li>
+          <li>Not including the source words (or their plurals and other simple forms) in the output</li>
         </ul>
         <p style={{ marginTop: '1rem', fontSize: '0.875rem', color: '#6b7280' }}>
           Example: From "SAMPLE CARD", you can make "SAMPLER", "APPLE", "CLAD", etc.
@@ -78,6 +215,95 @@ export default function WordbindPage() {
           />
         </div>
 
+        <div className={`${inputStyles.inputGroup} ${solverStyles.mb15}`}>
+          <label className={inputStyles.inputLabel}>Rules:</label>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem 1.5rem', alignItems: 'center' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+              Min length
+              <input
+                type="number"
+                min={1}
+                value={rules.minLength}
+                onChange={(e) => updateRules({ minLength: parseCount(e.target.value) })}
+                className={inputStyles.input}
+                style={{ width: '4.5rem' }}
+                disabled={solving}
+              />
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+              Max length
+              <input
+                type="number"
+                min={1}
+                value={rules.maxLength ?? ''}
+                onChange={(e) => updateRules({ maxLength: e.target.value === '' ? null : parseCount(e.target.value) })}
+                placeholder="Any"
+                className={inputStyles.input}
+                style={{ width: '4.5rem' }}
+                disabled={solving}
+              />
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+              Doubles per word
+              <input
+                type="number"
+                min={0}
+                value={rules.doublesPerWord}
+                onChange={(e) => updateRules({ doublesPerWord: parseCount(e.target.value) })}
+                className={inputStyles.input}
+                style={{ width: '4.5rem' }}
+                disabled={solving}
+              />
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+              Repeats per source letter
+              <input
+                type="number"
+                min={0}
+                value={rules.doublesPerSourceLetter}
+                onChange={(e) => updateRules({ doublesPerSourceLetter: parseCount(e.target.value) })}
+                className={inputStyles.input}
+                style={{ width: '4.5rem' }}
+                disabled={solving}
+              />
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+              <input
+                type="checkbox"
+                checked={rules.excludeSourceWords}
+                onChange={(e) => updateRules({ excludeSourceWords: e.target.checked })}
+                disabled={solving}
+              />
+              Exclude source words
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+              <input
+                type="checkbox"
+                checked={rules.excludeSourcePlurals}
+                onChange={(e) => updateRules({ excludeSourcePlurals: e.target.checked })}
+                disabled={solving}
+              />
+              Exclude their plurals
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+              <input
+                type="checkbox"
+                checked={rules.excludeSourceDerivatives}
+                onChange={(e) => updateRules({ excludeSourceDerivatives: e.target.checked })}
+                disabled={solving}
+              />
+              Exclude their -ed, -ing, -er and -ly forms
+            </label>
+            <button
+              onClick={() => updateRules(DEFAULT_WORDBIND_RULES)}
+              disabled={solving}
+              className={`${buttonStyles.button} ${buttonStyles.buttonSecondary} ${buttonStyles.buttonSmall}`}
+            >
+              Default Rules
+            </button>
+          </div>
+        </div>
+
         <div className={buttonStyles.buttonGroup}>
           <button
             onClick={handleSolve}
@@ -93,9 +319,21 @@ export default function WordbindPage() {
           >
             Clear
           </button>
+          <CopyLinkButton getParams={() => encodeWordbindState(sourceText, rules)} disabled={!sourceText.trim()} />
         </div>
       </div>
 
+      <PuzzleTextIO
+        formatHint="The 2-3 source words, separated by spaces."
+        placeholder="SAMPLE CARD"
+        parse={parseWordbindText}
+        onImport={handleImportText}
+        exportPuzzle={() => sourceText.trim().toUpperCase()}
+        exportSolution={solution ? () => formatWordList(solution.words.map(({ word }) => word)) : null}
+        disabled={solving}
+        rows={1}
+      />
+
       {error && (
         <div className={`${solverStyles.resultSection}`} style={{
           background: 'linear-gradient(135deg, rgba(239, 68, 68, 0.1) 0%, rgba(220, 38, 38, 0.1) 100%)',
@@ -107,11 +345,12 @@ export default function WordbindPage() {
       )}
 
       {solving && (
-        <div className={`${solverStyles.solvingMessage} ${solverStyles.mb15}`}>
-          <p className={solverStyles.solvingText}>
-            Searching for valid words... This may take a moment.
-          </p>
-        </div>
+        <SolverStatus
+          message="Searching for valid words..."
+          progress={progress}
+          onCancel={cancel}
+          className={solverStyles.mb15}
+        />
       )}
 
       {solution && (
@@ -124,37 +363,115 @@ export default function WordbindPage() {
             <p className={solverStyles.resultDescription}>No valid words found for this input.</p>
           ) : (
             <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
-              {Array.from(new Set(solution.words.map(w => w.length)))
-                .sort((a, b) => b - a)
-                .filter(length => length >= 5)
-                .map(length => {
-                  const wordsOfLength = solution.words.filter(w => w.length === length);
-                  return (
-                    <div key={length}>
-                      <h3 style={{
-                        fontWeight: 600,
-                        color: '#065f46',
-                        marginBottom: '0.75rem',
-                        fontSize: '1.125rem'
-                      }}>
-                        {length}-letter words ({wordsOfLength.length}):
-                      </h3>
-                      <div className={solverStyles.wordGrid}>
-                        {wordsOfLength.map((word, idx) => (
-                          <div
-                            key={idx}
-                            className={`${solverStyles.wordCard} ${solverStyles.coreWordCard}`}
-                            style={{ fontSize: '0.9375rem' }}
-                          >
-                            {word}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  );
-                })}
+              <div>
+                <p className={solverStyles.resultDescription}>
+                  {activeWord
+                    ? `${activeWord.word} uses the highlighted letters${activeWord.doubledIndices.length > 0 ? ', doubling the marked ones' : ''}.`
+                    : 'Hover over or click a word to see which source letters it uses.'}
+                </p>
+                {renderSourceTiles()}
+              </div>
+              <div className={solverStyles.setupCard}>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center' }}>
+                  <select
+                    value={filter.mode}
+                    onChange={(e) => setFilter({ ...filter, mode: e.target.value as TextMatchMode })}
+                    className={inputStyles.input}
+                    style={{ width: 'auto' }}
+                    aria-label="Text match"
+                  >
+                    {MATCH_MODES.map(({ mode, label }) => (
+                      <option key={mode} value={mode}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={filter.text}
+                    onChange={(e) => setFilter({ ...filter, text: e.target.value.replace(/[^a-zA-Z]/g, '') })}
+                    placeholder="Letters"
+                    className={inputStyles.input}
+                    style={{ width: '9rem' }}
+                    aria-label="Filter text"
+                  />
+                  <input
+                    type="text"
+                    value={filter.pattern}
+                    onChange={(e) => setFilter({ ...filter, pattern: e.target.value.replace(/[^a-zA-Z_?]/g, '').toUpperCase() })}
+                    placeholder="Pattern, e.g. _A__ER"
+                    className={inputStyles.input}
+                    style={{ width: '12rem', fontFamily: 'monospace' }}
+                    aria-label="Letter pattern"
+                  />
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={groupByLength}
+                      onChange={(e) => setGroupByLength(e.target.checked)}
+                    />
+                    Group by length
+                  </label>
+                  {filtering && (
+                    <button
+                      onClick={() => setFilter(EMPTY_WORD_FILTER)}
+                      className={`${buttonStyles.button} ${buttonStyles.buttonSecondary} ${buttonStyles.buttonSmall}`}
+                    >
+                      Clear Filters
+                    </button>
+                  )}
+                </div>
+                <div className={buttonStyles.buttonGroup} style={{ marginTop: '0.75rem', alignItems: 'center' }}>
+                  {SORT_OPTIONS.map(option => (
+                    <button
+                      key={option.sort}
+                      onClick={() => setSort(option.sort)}
+                      className={`${buttonStyles.button} ${buttonStyles.buttonSmall} ${sort === option.sort ? buttonStyles.buttonPrimary : buttonStyles.buttonSecondary}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                  <span className={solverStyles.hintLegend}>
+                    Showing {visibleWords.length} of {solution.totalWords}
+                  </span>
+                </div>
+              </div>
+              {visibleWords.length === 0 && (
+                <p className={solverStyles.resultDescription}>No words match the filters.</p>
+              )}
+              {visibleWords.length > 0 && wordGroups.map(group => (
+                <div key={group.label}>
+                  <h3 style={{
+                    fontWeight: 600,
+                    color: '#065f46',
+                    marginBottom: '0.75rem',
+                    fontSize: '1.125rem'
+                  }}>
+                    {group.label} ({filtering ? `${group.words.length} of ${group.total}` : group.words.length}):
+                  </h3>
+                  <div className={solverStyles.wordGrid}>
+                    {group.words.map(renderWordCard)}
+                  </div>
+                </div>
+              ))}
             </div>
           )}
+
+          {solution.excludedWords.length > 0 && (
+            <details style={{ marginTop: '1.5rem' }}>
+              <summary className={`${solverStyles.cursorPointer} ${solverStyles.resultDescription}`}>
+                Hidden source words and forms ({solution.excludedWords.length})
+              </summary>
+              <div className={solverStyles.wordGrid} style={{ marginTop: '0.75rem' }}>
+                {solution.excludedWords.map(result => (
+                  <div key={result.word} title={result.reason}>
+                    {renderWordCard(result)}
+                    <p className={solverStyles.hintLegend} style={{ textAlign: 'center', marginTop: '0.25rem' }}>
+                      {result.reason}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
         </div>
       )}
     </div>
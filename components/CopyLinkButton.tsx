@@ -0,0 +1,47 @@
+'use client';
+
+import { useState } from 'react';
+import { buildShareUrl } from '@/lib/utils/shareLink';
+import buttonStyles from '@/styles/components/button.module.css';
+
+interface CopyLinkButtonProps {
+  /** Encodes the page's current input */
+  getParams: () => URLSearchParams;
+  disabled?: boolean;
+  className?: string;
+}
+
+// How long the button shows its confirmation
+const COPIED_MS = 2000;
+
+/**
+ * Copies a link that reopens the current puzzle
+ * Also puts the link in the address bar, so it can be bookmarked or copied by hand
+ */
+export default function CopyLinkButton({ getParams, disabled = false, className = '' }: CopyLinkButtonProps) {
+  const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const handleCopy = async () => {
+    const url = buildShareUrl(getParams());
+    window.history.replaceState(null, '', url);
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus('copied');
+    } catch {
+      // Clipboard access can be blocked; the link is still in the address bar
+      setStatus('failed');
+    }
+    setTimeout(() => setStatus('idle'), COPIED_MS);
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      disabled={disabled}
+      className={`${buttonStyles.button} ${buttonStyles.buttonSecondary} ${className}`}
+    >
+      {status === 'copied' ? 'Link Copied!' : status === 'failed' ? 'Link in Address Bar' : 'Copy Link'}
+    </button>
+  );
+}
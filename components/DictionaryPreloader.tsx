@@ -1,18 +1,21 @@
 'use client';
 
 import { useEffect } from 'react';
-import { preloadDictionary } from '@/lib/dictionary';
+import { preloadSolverWorker } from '@/lib/workers/solverClient';
 
 /**
  * Client component that preloads the dictionary on mount
- * This ensures the dictionary is loaded and ready for the solvers
+ * The solvers run in a Web Worker, so the dictionary is loaded there
+ * rather than on the main thread
  */
 export default function DictionaryPreloader() {
   useEffect(() => {
-    // Preload dictionary when the app loads
-    preloadDictionary().catch(error => {
+    // Start the solver worker and load the dictionary when the app loads
+    try {
+      preloadSolverWorker();
+    } catch (error) {
       console.error('Failed to preload dictionary:', error);
-    });
+    }
   }, []);
 
   return null; // This component renders nothing
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import type { ParseResult } from '@/lib/utils/puzzleText';
+import buttonStyles from '@/styles/components/button.module.css';
+import inputStyles from '@/styles/components/input.module.css';
+import solverStyles from '@/styles/solver.module.css';
+
+interface PuzzleTextIOProps<T> {
+  /** Describes the expected format, shown above the text box */
+  formatHint: string;
+  placeholder: string;
+  parse: (text: string) => ParseResult<T>;
+  onImport: (value: T) => void;
+  /** Current puzzle in text form */
+  exportPuzzle: () => string;
+  /** Current solution in text form, or null when there is nothing solved yet */
+  exportSolution: (() => string) | null;
+  disabled?: boolean;
+  rows?: number;
+}
+
+/**
+ * Collapsible panel for pasting a puzzle as text and exporting the current one
+ * Each page supplies its own parser and formatters
+ */
+export default function PuzzleTextIO<T>({
+  formatHint,
+  placeholder,
+  parse,
+  onImport,
+  exportPuzzle,
+  exportSolution,
+  disabled = false,
+  rows = 3,
+}: PuzzleTextIOProps<T>) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleImport = () => {
+    const result = parse(text);
+    if (!result.ok) {
+      setError(result.error);
+      setMessage('');
+      return;
+    }
+
+    onImport(result.value);
+    setError('');
+    setMessage('Puzzle imported.');
+  };
+
+  const handleExport = (exporter: () => string, label: string) => {
+    const exported = exporter();
+    setText(exported);
+    setError('');
+
+    // Clipboard access can be missing (insecure pages, older browsers) or blocked;
+    // the text box still holds the export to copy by hand
+    const copyManually = `${label} exported below - copy it from the box.`;
+    if (!navigator.clipboard) {
+      setMessage(copyManually);
+      return;
+    }
+    navigator.clipboard.writeText(exported).then(
+      () => setMessage(`${label} copied to the clipboard.`),
+      () => setMessage(copyManually)
+    );
+  };
+
+  return (
+    <details className={`${solverStyles.setupCard} ${solverStyles.mb2}`}>
+      <summary className={solverStyles.cursorPointer} style={{ fontWeight: 600 }}>
+        Import / Export as Text
+      </summary>
+      <p className={solverStyles.resultDescription} style={{ margin: '0.75rem 0' }}>{formatHint}</p>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={placeholder}
+        rows={rows}
+        spellCheck={false}
+        className={inputStyles.textarea}
+        style={{ fontFamily: 'monospace' }}
+        aria-label="Puzzle text"
+      />
+      <div className={buttonStyles.buttonGroup} style={{ marginTop: '0.75rem', flexWrap: 'wrap' }}>
+        <button
+          onClick={handleImport}
+          disabled={disabled || !text.trim()}
+          className={`${buttonStyles.button} ${buttonStyles.buttonPrimary} ${buttonStyles.buttonSmall}`}
+        >
+          Import
+        </button>
+        <button
+          onClick={() => handleExport(exportPuzzle, 'Puzzle')}
+          className={`${buttonStyles.button} ${buttonStyles.buttonSecondary} ${buttonStyles.buttonSmall}`}
+        >
+          Export Puzzle
+        </button>
+        <button
+          onClick={() => exportSolution && handleExport(exportSolution, 'Solution')}
+          disabled={!exportSolution}
+          className={`${buttonStyles.button} ${buttonStyles.buttonSecondary} ${buttonStyles.buttonSmall}`}
+        >
+          Export Solution
+        </button>
+      </div>
+      {error && <p style={{ color: '#991b1b', fontWeight: 600, margin: '0.75rem 0 0' }}>{error}</p>}
+      {message && !error && <p className={solverStyles.hintLegend} style={{ marginTop: '0.75rem' }}>{message}</p>}
+    </details>
+  );
+}
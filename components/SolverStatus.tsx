@@ -0,0 +1,47 @@
+'use client';
+
+import type { SolverProgress } from '@/lib/solvers/progress';
+import buttonStyles from '@/styles/components/button.module.css';
+import solverStyles from '@/styles/solver.module.css';
+
+interface SolverStatusProps {
+  message: string;
+  progress: SolverProgress | null;
+  onCancel: () => void;
+  progressLabel?: string;
+  className?: string;
+}
+
+/**
+ * In-progress panel shown while a solver runs in the worker
+ * Displays live progress counts and a Cancel button
+ */
+export default function SolverStatus({
+  message,
+  progress,
+  onCancel,
+  progressLabel = 'candidates checked',
+  className = '',
+}: SolverStatusProps) {
+  return (
+    <div className={`${solverStyles.solvingMessage} ${className}`}>
+      <div className={solverStyles.solvingStatus}>
+        <div>
+          <p className={solverStyles.solvingText}>{message}</p>
+          {progress && (
+            <p className={solverStyles.solvingProgress}>
+              {progress.candidatesChecked.toLocaleString()} {progressLabel}
+              {progress.wordsFound > 0 && ` · ${progress.wordsFound.toLocaleString()} words found`}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onCancel}
+          className={`${buttonStyles.button} ${buttonStyles.buttonSecondary} ${buttonStyles.buttonSmall}`}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
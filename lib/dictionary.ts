@@ -1,16 +1,153 @@
 // Local dictionary for fast word validation
-// Uses a large English word list loaded from a static file
+// Uses a large English word list loaded from a static file and indexed as a
+// prefix trie so every solver can share one copy of the list
 
-let wordSet: Set<string> | null = null;
-let loadingPromise: Promise<Set<string>> | null = null;
+/**
+ * Node handle inside the dictionary index (-1 means "no such node")
+ */
+export type DictionaryNode = number;
+
+export const NO_NODE: DictionaryNode = -1;
+
+/**
+ * Prefix-aware index over the word list
+ * Nodes are stored in flat typed arrays (first-child / next-sibling layout)
+ * so the full list fits in a few megabytes
+ */
+export interface DictionaryIndex {
+  /** Number of words in the index */
+  size: number;
+  /** Root node (the empty prefix) */
+  root: DictionaryNode;
+  /** true if the word exists in the dictionary */
+  hasWord(word: string): boolean;
+  /** true if at least one dictionary word starts with the prefix */
+  hasPrefix(prefix: string): boolean;
+  /** Follows the given letters from a node, returning NO_NODE if the path does not exist */
+  walk(node: DictionaryNode, letters: string): DictionaryNode;
+  /** Follows a single letter from a node, returning NO_NODE if it does not exist */
+  child(node: DictionaryNode, letter: string): DictionaryNode;
+  /** Iterates the letters that can follow a node, with their child nodes */
+  children(node: DictionaryNode): Generator<[string, DictionaryNode]>;
+  /** true if the path from the root to this node spells a word */
+  isWord(node: DictionaryNode): boolean;
+}
+
+let dictionaryIndex: DictionaryIndex | null = null;
+let loadingPromise: Promise<DictionaryIndex> | null = null;
 
 /**
- * Loads the dictionary from the static file
- * @returns Promise<Set<string>> - Set of all valid words
+ * Builds a prefix index from a list of words
+ * @param words - Words to index (any order, any case)
+ * @returns DictionaryIndex over the lowercase words
  */
-async function loadDictionary(): Promise<Set<string>> {
-  if (wordSet) {
-    return wordSet;
+export function buildDictionaryIndex(words: string[]): DictionaryIndex {
+  const sorted = words
+    .map(word => word.trim().toLowerCase())
+    .filter(word => word.length > 0)
+    .sort();
+
+  // Growable node storage while building; converted to typed arrays at the end
+  const letters: number[] = [0];
+  const firstChild: number[] = [NO_NODE];
+  const nextSibling: number[] = [NO_NODE];
+  const lastChild: number[] = [NO_NODE];
+  const terminal: number[] = [0];
+
+  let size = 0;
+  let previous = '';
+  // Node path of the previous word, so shared prefixes are not re-walked
+  const previousPath: number[] = [0];
+
+  for (const word of sorted) {
+    if (word === previous) continue;
+
+    // Length of the prefix shared with the previous (sorted) word
+    let shared = 0;
+    while (shared < word.length && shared < previous.length && word[shared] === previous[shared]) {
+      shared++;
+    }
+
+    previousPath.length = shared + 1;
+    let node = previousPath[shared];
+
+    // Sorted input means every new child is appended after the existing ones
+    for (let i = shared; i < word.length; i++) {
+      const created = letters.length;
+      letters.push(word.charCodeAt(i));
+      firstChild.push(NO_NODE);
+      nextSibling.push(NO_NODE);
+      lastChild.push(NO_NODE);
+      terminal.push(0);
+
+      if (lastChild[node] === NO_NODE) {
+        firstChild[node] = created;
+      } else {
+        nextSibling[lastChild[node]] = created;
+      }
+      lastChild[node] = created;
+
+      node = created;
+      previousPath.push(node);
+    }
+
+    terminal[node] = 1;
+    size++;
+    previous = word;
+  }
+
+  const letterCodes = Uint16Array.from(letters);
+  const firstChildren = Int32Array.from(firstChild);
+  const nextSiblings = Int32Array.from(nextSibling);
+  const terminals = Uint8Array.from(terminal);
+
+  function childByCode(node: DictionaryNode, code: number): DictionaryNode {
+    if (node === NO_NODE) return NO_NODE;
+
+    for (let c = firstChildren[node]; c !== NO_NODE; c = nextSiblings[c]) {
+      if (letterCodes[c] === code) return c;
+      // Siblings are sorted, so we can stop once we pass the letter
+      if (letterCodes[c] > code) return NO_NODE;
+    }
+    return NO_NODE;
+  }
+
+  function walk(node: DictionaryNode, path: string): DictionaryNode {
+    const lower = path.toLowerCase();
+    let current = node;
+    for (let i = 0; i < lower.length && current !== NO_NODE; i++) {
+      current = childByCode(current, lower.charCodeAt(i));
+    }
+    return current;
+  }
+
+  return {
+    size,
+    root: 0,
+    hasWord: (word) => {
+      const node = walk(0, word);
+      return node !== NO_NODE && terminals[node] === 1;
+    },
+    hasPrefix: (prefix) => walk(0, prefix) !== NO_NODE,
+    walk,
+    child: (node, letter) => childByCode(node, letter.toLowerCase().charCodeAt(0)),
+    children: function* (node) {
+      if (node === NO_NODE) return;
+      for (let c = firstChildren[node]; c !== NO_NODE; c = nextSiblings[c]) {
+        yield [String.fromCharCode(letterCodes[c]), c];
+      }
+    },
+    isWord: (node) => node !== NO_NODE && terminals[node] === 1,
+  };
+}
+
+/**
+ * Loads the dictionary from the static file and indexes it
+ * @returns Promise<DictionaryIndex> - Shared prefix index of all valid words
+ */
+export async function loadDictionary(): Promise<DictionaryIndex> {
+  if (dictionaryIndex) {
+    return dictionaryIndex;
   }
 
   if (loadingPromise) {
@@ -25,19 +162,14 @@ async function loadDictionary(): Promise<Set<string>> {
       }
 
       const text = await response.text();
-      const words = text
-        .split('\n')
-        .map(word => word.trim().toLowerCase())
-        .filter(word => word.length > 0);
-
-      wordSet = new Set(words);
-      console.log(`Dictionary loaded: ${wordSet.size} words`);
-      return wordSet;
+      dictionaryIndex = buildDictionaryIndex(text.split('\n'));
+      console.log(`Dictionary loaded: ${dictionaryIndex.size} words`);
+      return dictionaryIndex;
     } catch (error) {
       console.error('Error loading dictionary:', error);
-      // Return empty set on error
-      wordSet = new Set();
-      return wordSet;
+      // Return empty index on error
+      dictionaryIndex = buildDictionaryIndex([]);
+      return dictionaryIndex;
     }
   })();
 
@@ -51,7 +183,17 @@ async function loadDictionary(): Promise<Set<string>> {
  */
 export async function isValidWordLocal(word: string): Promise<boolean> {
   const dictionary = await loadDictionary();
-  return dictionary.has(word.toLowerCase());
+  return dictionary.hasWord(word);
+}
+
+/**
+ * Checks if any word in the local dictionary starts with the prefix
+ * @param prefix - The prefix to check
+ * @returns Promise<boolean> - true if the prefix can still become a word
+ */
+export async function isValidPrefixLocal(prefix: string): Promise<boolean> {
+  const dictionary = await loadDictionary();
+  return dictionary.hasPrefix(prefix);
 }
 
 /**
@@ -65,7 +207,7 @@ export async function filterValidWords(words: string[]): Promise<Set<string>> {
 
   for (const word of words) {
     const normalized = word.toLowerCase();
-    if (dictionary.has(normalized)) {
+    if (dictionary.hasWord(normalized)) {
       validWords.add(normalized);
     }
   }
@@ -87,3 +229,70 @@ export async function getDictionarySize(): Promise<number> {
   const dictionary = await loadDictionary();
   return dictionary.size;
 }
+
+/**
+ * Regular word forms built from a base word by adding a suffix
+ */
+export type WordForm = 'plural' | 'past' | 'progressive' | 'agent' | 'adverb';
+
+export const WORD_FORMS: WordForm[] = ['plural', 'past', 'progressive', 'agent', 'adverb'];
+
+// One-syllable words ending consonant-vowel-consonant double their last letter before
+// a vowel suffix (STOP -> STOPPED); longer words mostly don't (OPEN -> OPENED)
+const DOUBLING_ENDING = /^[^aeiou]*[aeiou][^aeiouwxy]$/;
+
+/**
+ * Spells a word with a regular suffix, applying the usual English spelling rules
+ * Gives one spelling per form, so an unrelated word like STOPING isn't mistaken for
+ * a form of STOP; use findWordForms to keep only real words
+ * @param word - Base word (any case)
+ * @param form - Which suffix to add
+ * @returns The spelling in lowercase
+ */
+export function spellWordForm(word: string, form: WordForm): string {
+  const base = word.toLowerCase();
+  const consonantY = /[^aeiou]y$/.test(base);
+  // The stem a vowel suffix attaches to
+  const stem = DOUBLING_ENDING.test(base) ? base + base[base.length - 1] : base;
+
+  switch (form) {
+    case 'plural':
+      if (consonantY) return `${base.slice(0, -1)}ies`;
+      return /(s|x|z|ch|sh)$/.test(base) ? `${base}es` : `${base}s`;
+    case 'past':
+      if (base.endsWith('e')) return `${base}d`;
+      if (consonantY) return `${base.slice(0, -1)}ied`;
+      return `${stem}ed`;
+    case 'progressive':
+      if (base.endsWith('ie')) return `${base.slice(0, -2)}ying`;
+      // A silent E drops (MAKING), but not after another vowel or Y (SEEING, HOEING, DYEING)
+      if (/[^aeiouy]e$/.test(base)) return `${base.slice(0, -1)}ing`;
+      return `${stem}ing`;
+    case 'agent':
+      if (base.endsWith('e')) return `${base}r`;
+      if (consonantY) return `${base.slice(0, -1)}ier`;
+      return `${stem}er`;
+    case 'adverb':
+      if (/[^aeiou]le$/.test(base)) return `${base.slice(0, -1)}y`;
+      if (consonantY) return `${base.slice(0, -1)}ily`;
+      if (base.endsWith('ic')) return `${base}ally`;
+      return `${base}ly`;
+  }
+}
+
+/**
+ * Finds the regular forms of a word that exist in the dictionary
+ * @param index - Dictionary to check candidate spellings against
+ * @param word - Base word (any case)
+ * @param forms - Which forms to look for
+ * @returns Each real form (lowercase) with the kind of form it is
+ */
+export function findWordForms(
+  index: DictionaryIndex,
+  word: string,
+  forms: WordForm[] = WORD_FORMS
+): { word: string; form: WordForm }[] {
+  return forms
+    .map(form => ({ word: spellWordForm(word, form), form }))
+    .filter(candidate => index.hasWord(candidate.word));
+}
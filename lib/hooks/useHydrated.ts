@@ -0,0 +1,15 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+function subscribe(): () => void {
+  return () => {};
+}
+
+/**
+ * React hook that is false while hydrating and true from the next render on
+ * Lets pages read browser-only state such as localStorage without a hydration mismatch
+ */
+export function useHydrated(): boolean {
+  return useSyncExternalStore(subscribe, () => true, () => false);
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { parseShareHash } from '../utils/shareLink';
+import type { ParseResult } from '../utils/puzzleText';
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener('hashchange', onChange);
+  return () => window.removeEventListener('hashchange', onChange);
+}
+
+/**
+ * React hook for the puzzle shared in the URL hash
+ * The server has no hash, so this is null while hydrating and the decoded puzzle
+ * right after; pages copy it into their own state when it changes
+ * @param decode - Decoder for the page's share parameters (a module-level function)
+ * @returns null when the page was opened without a shared puzzle
+ */
+export function useSharedPuzzle<T>(
+  decode: (params: URLSearchParams) => ParseResult<T>
+): ParseResult<T> | null {
+  const hash = useSyncExternalStore(subscribe, () => window.location.hash, () => '');
+
+  return useMemo(() => {
+    const params = parseShareHash(hash);
+    return params ? decode(params) : null;
+  }, [hash, decode]);
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAbortError, runSolver } from '../workers/solverClient';
+import type { SolverProgress } from '../solvers/progress';
+import type { SolverInputs, SolverKind, SolverResults } from '../workers/solverProtocol';
+
+/**
+ * React hook for running a solver in the background worker
+ * Tracks solving state and progress, and exposes a cancel function
+ * @param kind - Which solver the page uses
+ */
+export function useSolver<K extends SolverKind>(kind: K) {
+  const [solving, setSolving] = useState(false);
+  const [progress, setProgress] = useState<SolverProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Runs the solver
+   * @returns The result, or null if the solve was cancelled
+   */
+  const solve = useCallback(async (input: SolverInputs[K]): Promise<SolverResults[K] | null> => {
+    // Only one solve per page at a time
+    controllerRef.current?.abort();
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setSolving(true);
+    setProgress(null);
+
+    try {
+      return await runSolver(kind, input, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        return null;
+      }
+      throw error;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setSolving(false);
+        setProgress(null);
+      }
+    }
+  }, [kind]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Abort any in-flight solve when the page unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { solve, cancel, solving, progress };
+}
@@ -1,3 +1,5 @@
+import { ProgressCallback } from './progress';
+
 export type SudokuGrid = (number | null)[][];
 
 export interface StarCell {
@@ -6,38 +8,491 @@ export interface StarCell {
   color: 'gold' | 'purple' | 'green';
 }
 
+/**
+ * 'invalid' - the givens conflict with each other
+ * 'no-solution' - the givens are consistent but cannot be completed
+ * 'unique' - exactly one solution
+ * 'multiple' - more than one solution (usually a typo or a missing given)
+ */
+export type SolutionStatus = 'invalid' | 'no-solution' | 'unique' | 'multiple';
+
 export interface MemokuSolution {
   solved: boolean;
   grid: SudokuGrid;
+  status: SolutionStatus;
+  /** A second, different solution when status is 'multiple' */
+  alternateGrid?: SudokuGrid;
+  /** Cells where grid and alternateGrid disagree */
+  differingCells?: { row: number; col: number }[];
   error?: string;
 }
 
+interface SearchStats {
+  nodesVisited: number;
+  onProgress?: ProgressCallback;
+}
+
 /**
- * Validates if a number can be placed at a given position
+ * Grid size plus a region map
+ * regions[row][col] is the 0-based region ("box") of each cell; standard
+ * layouts use rectangular boxes, jigsaw layouts any shape with size cells each
  */
-function isValidPlacement(grid: SudokuGrid, row: number, col: number, num: number): boolean {
-  // Check row
-  for (let c = 0; c < 9; c++) {
-    if (c !== col && grid[row][c] === num) {
-      return false;
+export interface MemokuLayout {
+  size: number;
+  regions: number[][];
+}
+
+export interface CellRef {
+  row: number;
+  col: number;
+}
+
+/**
+ * Variant rules on top of rows, columns and regions
+ * Constraints are plain data (so they can be sent to the worker and saved);
+ * what each one means is defined by its entry in CONSTRAINT_PLUGINS
+ * 'diagonal' - both main diagonals hold distinct digits (X-sudoku)
+ * 'cage' - killer cage: distinct digits adding up to sum
+ * 'thermometer' - digits strictly increase from the bulb (cells[0]) along the cells
+ * 'parity' - the cell holds an odd or an even digit
+ */
+export type MemokuConstraint =
+  | { type: 'diagonal' }
+  | { type: 'cage'; cells: CellRef[]; sum: number }
+  | { type: 'thermometer'; cells: CellRef[] }
+  | { type: 'parity'; cell: CellRef; parity: 'odd' | 'even' };
+
+export type ConstraintType = MemokuConstraint['type'];
+
+/**
+ * A data-entry problem found while the givens are typed
+ * 'duplicate' - two cells in the same unit hold the same digit (cells is the pair)
+ * 'no-candidates' - an empty cell has no digit left that fits (cells is that cell)
+ */
+export interface GridConflict {
+  kind: 'duplicate' | 'no-candidates';
+  cells: CellRef[];
+  /** The unit the duplicate pair shares */
+  unit?: MemokuUnit;
+  message: string;
+}
+
+/**
+ * A group of cells that must hold distinct digits
+ * index is 0-based (row 0 is the top row, box 0 the first region); groups added
+ * by constraints (diagonals, cages) are numbered per kind
+ */
+export interface MemokuUnit {
+  kind: 'row' | 'column' | 'box' | ConstraintType;
+  index: number;
+  cells: number[];
+}
+
+/**
+ * Units and peers derived from a layout
+ * Cells are indexed row * size + col
+ */
+export interface MemokuGeometry {
+  size: number;
+  cellCount: number;
+  /** Bitmask with a bit set for every digit 1..size */
+  allDigits: number;
+  /** Rows, then columns, then regions */
+  units: MemokuUnit[];
+  /** Cells sharing a unit with each cell (excluding the cell itself) */
+  peers: number[][];
+}
+
+/**
+ * Working state for the candidate-based solver
+ * Candidates are bitmasks where bit (d - 1) means digit d
+ */
+interface CandidateState {
+  geometry: MemokuGeometry;
+  constraints: MemokuConstraint[];
+  values: number[];
+  candidates: number[];
+}
+
+/**
+ * Box shape [rows, columns] for each supported grid size
+ */
+const BOX_SHAPES: Record<number, [number, number]> = {
+  4: [2, 2],
+  6: [2, 3],
+  9: [3, 3],
+};
+
+export const SUPPORTED_SIZES = Object.keys(BOX_SHAPES).map(Number);
+
+// How many search nodes to visit between progress reports
+const PROGRESS_INTERVAL = 1000;
+
+// Bits for the odd digits (1, 3, 5, 7, 9) and the even digits (2, 4, 6, 8)
+const ODD_DIGITS = 0b101010101;
+const EVEN_DIGITS = 0b010101010;
+
+/**
+ * Behaviour of one constraint type
+ * The solver calls groups once to build the extra all-different units, and
+ * prune at every search node until nothing changes
+ */
+export interface ConstraintPlugin<C extends MemokuConstraint> {
+  /** Short description for lists and error messages */
+  describe: (constraint: C) => string;
+  /** Checks the constraint's own data; returns an error message or null */
+  validate?: (constraint: C, size: number) => string | null;
+  /** Groups of cell indexes (row * size + col) that must hold distinct digits */
+  groups?: (constraint: C, size: number) => number[][];
+  /**
+   * Removes candidates the constraint rules out
+   * candidates holds a digit bitmask per cell (a placed cell has just its digit)
+   * @returns false if some cell is left with no candidates
+   */
+  prune?: (constraint: C, candidates: number[], size: number) => boolean;
+}
+
+function toIndex(cell: CellRef, size: number): number {
+  return cell.row * size + cell.col;
+}
+
+function lowestDigit(mask: number): number {
+  return 32 - Math.clz32(mask & -mask);
+}
+
+function highestDigit(mask: number): number {
+  return 32 - Math.clz32(mask);
+}
+
+/**
+ * Checks cells are on the grid and not repeated
+ */
+function validateCells(cells: CellRef[], size: number): string | null {
+  if (cells.some(({ row, col }) => row < 0 || row >= size || col < 0 || col >= size)) {
+    return 'uses a cell outside the grid';
+  }
+  if (new Set(cells.map(cell => toIndex(cell, size))).size !== cells.length) {
+    return 'uses the same cell twice';
+  }
+  return null;
+}
+
+export const CONSTRAINT_PLUGINS: {
+  [T in ConstraintType]: ConstraintPlugin<Extract<MemokuConstraint, { type: T }>>;
+} = {
+  diagonal: {
+    describe: () => 'X-diagonals',
+    groups: (_, size) => [
+      Array.from({ length: size }, (_, i) => i * size + i),
+      Array.from({ length: size }, (_, i) => i * size + (size - 1 - i)),
+    ],
+  },
+
+  cage: {
+    describe: ({ cells, sum }) => `Cage of ${cells.length} cells summing to ${sum}`,
+    validate: ({ cells, sum }, size) => {
+      const cellError = validateCells(cells, size);
+      if (cellError) return `A cage ${cellError}.`;
+      if (cells.length === 0 || cells.length > size) {
+        return `A cage must have between 1 and ${size} cells.`;
+      }
+
+      // Smallest and largest sums of cells.length distinct digits
+      const min = (cells.length * (cells.length + 1)) / 2;
+      const max = cells.length * size - (cells.length * (cells.length - 1)) / 2;
+      return sum < min || sum > max
+        ? `A cage of ${cells.length} cells must sum to between ${min} and ${max}.`
+        : null;
+    },
+    groups: ({ cells }, size) => [cells.map(cell => toIndex(cell, size))],
+    prune: ({ cells, sum }, candidates, size) => {
+      const indexes = cells.map(cell => toIndex(cell, size));
+      if (indexes.some(index => candidates[index] === 0)) return false;
+
+      const mins = indexes.map(index => lowestDigit(candidates[index]));
+      const maxs = indexes.map(index => highestDigit(candidates[index]));
+      const totalMin = mins.reduce((a, b) => a + b, 0);
+      const totalMax = maxs.reduce((a, b) => a + b, 0);
+
+      // A digit stays only if the other cells can still make up the rest of the sum
+      return indexes.every((index, i) => {
+        const restMin = totalMin - mins[i];
+        const restMax = totalMax - maxs[i];
+        for (const digit of digitsOf(candidates[index])) {
+          if (sum - digit < restMin || sum - digit > restMax) {
+            candidates[index] &= ~(1 << (digit - 1));
+          }
+        }
+        return candidates[index] !== 0;
+      });
+    },
+  },
+
+  thermometer: {
+    describe: ({ cells }) => `Thermometer of ${cells.length} cells`,
+    validate: ({ cells }, size) => {
+      const cellError = validateCells(cells, size);
+      if (cellError) return `A thermometer ${cellError}.`;
+      return cells.length < 2 || cells.length > size
+        ? `A thermometer must have between 2 and ${size} cells.`
+        : null;
+    },
+    prune: ({ cells }, candidates, size) => {
+      const indexes = cells.map(cell => toIndex(cell, size));
+      if (indexes.some(index => candidates[index] === 0)) return false;
+
+      // Each cell must be above the smallest option before it...
+      for (let i = 1; i < indexes.length; i++) {
+        const floor = lowestDigit(candidates[indexes[i - 1]]);
+        candidates[indexes[i]] &= ~((1 << floor) - 1);
+        if (candidates[indexes[i]] === 0) return false;
+      }
+      // ...and below the largest option after it
+      for (let i = indexes.length - 2; i >= 0; i--) {
+        const ceiling = highestDigit(candidates[indexes[i + 1]]);
+        candidates[indexes[i]] &= (1 << (ceiling - 1)) - 1;
+        if (candidates[indexes[i]] === 0) return false;
+      }
+      return true;
+    },
+  },
+
+  parity: {
+    describe: ({ cell, parity }) => `${describeCell(cell)} is ${parity}`,
+    validate: ({ cell }, size) => {
+      const cellError = validateCells([cell], size);
+      return cellError ? `A parity mark ${cellError}.` : null;
+    },
+    prune: ({ cell, parity }, candidates, size) => {
+      const index = toIndex(cell, size);
+      candidates[index] &= parity === 'odd' ? ODD_DIGITS : EVEN_DIGITS;
+      return candidates[index] !== 0;
+    },
+  },
+};
+
+/**
+ * Looks up the plugin for a constraint
+ * (TypeScript can't narrow the registry entry from a union-typed constraint)
+ */
+export function getConstraintPlugin<C extends MemokuConstraint>(constraint: C): ConstraintPlugin<C> {
+  return CONSTRAINT_PLUGINS[constraint.type] as unknown as ConstraintPlugin<C>;
+}
+
+/**
+ * Checks every constraint's data against the grid size
+ * @returns The first error message, or null if all constraints are valid
+ */
+export function validateConstraints(constraints: MemokuConstraint[], size: number): string | null {
+  for (const constraint of constraints) {
+    const error = getConstraintPlugin(constraint).validate?.(constraint, size);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Creates the layout with standard rectangular boxes (2x2, 2x3 or 3x3)
+ * @param size - 4, 6 or 9
+ */
+export function createStandardLayout(size: number = 9): MemokuLayout {
+  const [boxRows, boxCols] = BOX_SHAPES[size] ?? BOX_SHAPES[9];
+  const boxesPerRow = size / boxCols;
+
+  return {
+    size,
+    regions: Array.from({ length: size }, (_, row) =>
+      Array.from({ length: size }, (_, col) =>
+        Math.floor(row / boxRows) * boxesPerRow + Math.floor(col / boxCols)
+      )
+    ),
+  };
+}
+
+/**
+ * Checks a layout can be solved against
+ * @returns An error message, or null if the layout is valid
+ */
+export function validateLayout(layout: MemokuLayout): string | null {
+  const { size, regions } = layout;
+
+  if (!SUPPORTED_SIZES.includes(size)) {
+    return `Unsupported grid size ${size}. Must be one of ${SUPPORTED_SIZES.join(', ')}.`;
+  }
+  if (regions.length !== size || !regions.every(row => row.length === size)) {
+    return `The region map must be ${size}x${size}.`;
+  }
+
+  const counts: number[] = Array(size).fill(0);
+  for (const region of regions.flat()) {
+    if (!Number.isInteger(region) || region < 0 || region >= size) {
+      return `Region numbers must be between 1 and ${size}.`;
     }
+    counts[region]++;
+  }
+
+  const uneven = counts.findIndex(count => count !== size);
+  if (uneven !== -1) {
+    return `Each region needs exactly ${size} cells, but region ${uneven + 1} has ${counts[uneven]}.`;
+  }
+
+  return null;
+}
+
+const geometryCache = new Map<string, MemokuGeometry>();
+
+/**
+ * Builds (and caches) the units and peers for a layout
+ * @param constraints - Variant constraints whose all-different groups become extra units
+ */
+export function getGeometry(layout: MemokuLayout, constraints: MemokuConstraint[] = []): MemokuGeometry {
+  const { size, regions } = layout;
+  const groups = constraints.flatMap(constraint =>
+    (getConstraintPlugin(constraint).groups?.(constraint, size) ?? []).map(cells => ({ kind: constraint.type, cells }))
+  );
+
+  const key = [
+    regions.map(row => row.join(',')).join(';'),
+    ...groups.map(({ cells }) => cells.join(',')),
+  ].join('|');
+  const cached = geometryCache.get(key);
+  if (cached) return cached;
+
+  const cellCount = size * size;
+  const units: MemokuUnit[] = [];
+
+  for (let r = 0; r < size; r++) {
+    units.push({ kind: 'row', index: r, cells: Array.from({ length: size }, (_, c) => r * size + c) });
   }
+  for (let c = 0; c < size; c++) {
+    units.push({ kind: 'column', index: c, cells: Array.from({ length: size }, (_, r) => r * size + c) });
+  }
+  for (let b = 0; b < size; b++) {
+    const box: number[] = [];
+    for (let cell = 0; cell < cellCount; cell++) {
+      if (regions[Math.floor(cell / size)][cell % size] === b) box.push(cell);
+    }
+    units.push({ kind: 'box', index: b, cells: box });
+  }
+  groups.forEach(({ kind, cells }) => {
+    units.push({ kind, index: units.filter(unit => unit.kind === kind).length, cells });
+  });
+
+  const peers = Array.from({ length: cellCount }, (_, cell) => {
+    const shared = units.filter(unit => unit.cells.includes(cell)).flatMap(unit => unit.cells);
+    return Array.from(new Set(shared)).filter(peer => peer !== cell);
+  });
+
+  const geometry: MemokuGeometry = { size, cellCount, allDigits: (1 << size) - 1, units, peers };
+  geometryCache.set(key, geometry);
+  return geometry;
+}
+
+/**
+ * Names a cell for messages, e.g. R3C7 (1-based)
+ */
+export function describeCell(cell: CellRef): string {
+  return `R${cell.row + 1}C${cell.col + 1}`;
+}
+
+/**
+ * Names a unit for explanations, e.g. "row 3", "column 7", "box 5" (1-based)
+ */
+export function describeUnit(unit: MemokuUnit): string {
+  return `${unit.kind} ${unit.index + 1}`;
+}
 
-  // Check column
-  for (let r = 0; r < 9; r++) {
-    if (r !== row && grid[r][col] === num) {
+export function bitCount(mask: number): number {
+  let count = 0;
+  for (let m = mask; m; m &= m - 1) count++;
+  return count;
+}
+
+export function digitsOf(mask: number): number[] {
+  const digits: number[] = [];
+  for (let d = 1; mask >> (d - 1); d++) {
+    if (mask & (1 << (d - 1))) digits.push(d);
+  }
+  return digits;
+}
+
+/**
+ * Validates if a number can be placed at a given position
+ */
+function isValidPlacement(grid: SudokuGrid, geometry: MemokuGeometry, row: number, col: number, num: number): boolean {
+  const { size, peers } = geometry;
+  return peers[row * size + col].every(peer => grid[Math.floor(peer / size)][peer % size] !== num);
+}
+
+/**
+ * Places a digit and removes it from every peer's candidates
+ * Peers left with a single candidate are placed too (naked singles)
+ * @returns false if this leads to a contradiction
+ */
+function assign(state: CandidateState, cell: number, digit: number): boolean {
+  const queue: [number, number][] = [[cell, digit]];
+
+  while (queue.length > 0) {
+    const [current, value] = queue.pop()!;
+    const bit = 1 << (value - 1);
+
+    if (state.values[current] === value) continue;
+    if (state.values[current] !== 0 || !(state.candidates[current] & bit)) {
       return false;
     }
+
+    state.values[current] = value;
+    state.candidates[current] = bit;
+
+    for (const peer of state.geometry.peers[current]) {
+      if (!(state.candidates[peer] & bit)) continue;
+
+      if (state.values[peer] === value) return false;
+      if (state.values[peer] !== 0) continue;
+
+      state.candidates[peer] &= ~bit;
+      const remaining = state.candidates[peer];
+      if (remaining === 0) return false;
+      if (bitCount(remaining) === 1) {
+        queue.push([peer, digitsOf(remaining)[0]]);
+      }
+    }
   }
 
-  // Check 3x3 box
-  const boxRow = Math.floor(row / 3) * 3;
-  const boxCol = Math.floor(col / 3) * 3;
+  return true;
+}
+
+/**
+ * Places hidden singles (a digit with only one possible cell in a unit) until none remain
+ * @returns false if a unit has a digit with nowhere to go
+ */
+function propagateHiddenSingles(state: CandidateState): boolean {
+  let changed = true;
 
-  for (let r = boxRow; r < boxRow + 3; r++) {
-    for (let c = boxCol; c < boxCol + 3; c++) {
-      if ((r !== row || c !== col) && grid[r][c] === num) {
-        return false;
+  while (changed) {
+    changed = false;
+
+    for (const unit of state.geometry.units) {
+      // Only units as big as the grid must contain every digit
+      if (unit.cells.length !== state.geometry.size) continue;
+
+      for (let d = 1; d <= state.geometry.size; d++) {
+        const bit = 1 << (d - 1);
+        let place = -1;
+        let count = 0;
+
+        for (const cell of unit.cells) {
+          if (state.candidates[cell] & bit) {
+            place = cell;
+            count++;
+          }
+        }
+
+        if (count === 0) return false;
+        if (count === 1 && state.values[place] === 0) {
+          if (!assign(state, place, d)) return false;
+          changed = true;
+        }
       }
     }
   }
@@ -46,46 +501,232 @@ function isValidPlacement(grid: SudokuGrid, row: number, col: number, num: numbe
 }
 
 /**
- * Finds the next empty cell in the grid
+ * Runs hidden singles and every constraint's pruning until nothing changes
+ * Cells pruned down to a single candidate are placed
+ * @returns false if this leads to a contradiction
  */
-function findEmptyCell(grid: SudokuGrid): [number, number] | null {
-  for (let row = 0; row < 9; row++) {
-    for (let col = 0; col < 9; col++) {
-      if (grid[row][col] === null) {
-        return [row, col];
+function propagate(state: CandidateState): boolean {
+  const { size, cellCount } = state.geometry;
+
+  for (;;) {
+    if (!propagateHiddenSingles(state)) return false;
+    if (state.constraints.length === 0) return true;
+
+    const before = [...state.candidates];
+    for (const constraint of state.constraints) {
+      const { prune } = getConstraintPlugin(constraint);
+      if (prune && !prune(constraint, state.candidates, size)) return false;
+    }
+
+    let changed = false;
+    for (let cell = 0; cell < cellCount; cell++) {
+      if (state.candidates[cell] === before[cell]) continue;
+      changed = true;
+
+      const remaining = state.candidates[cell];
+      if (state.values[cell] === 0 && bitCount(remaining) === 1 && !assign(state, cell, digitsOf(remaining)[0])) {
+        return false;
       }
     }
+    if (!changed) return true;
   }
-  return null;
 }
 
 /**
- * Solves a Sudoku puzzle using backtracking
+ * Builds the initial candidate state from the givens
+ * @returns null if the givens already contradict each other
  */
-function solveSudoku(grid: SudokuGrid): boolean {
-  const emptyCell = findEmptyCell(grid);
+function createCandidateState(
+  grid: SudokuGrid,
+  geometry: MemokuGeometry,
+  constraints: MemokuConstraint[]
+): CandidateState | null {
+  const { size, cellCount, allDigits } = geometry;
+  const state: CandidateState = {
+    geometry,
+    constraints,
+    values: Array(cellCount).fill(0),
+    candidates: Array(cellCount).fill(allDigits),
+  };
 
-  if (!emptyCell) {
-    // No empty cells, puzzle is solved
-    return true;
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const value = grid[row][col];
+      if (value !== null && !assign(state, row * size + col, value)) {
+        return null;
+      }
+    }
   }
 
-  const [row, col] = emptyCell;
+  return state;
+}
 
-  for (let num = 1; num <= 9; num++) {
-    if (isValidPlacement(grid, row, col, num)) {
-      grid[row][col] = num;
+/**
+ * Computes pencil-mark candidates directly from the filled cells
+ * (no deductions beyond "not already in the same row, column or box")
+ * @param constraints - Variant constraints whose groups also count as units
+ * @returns A bitmask per cell index; filled cells get 0
+ */
+export function getCandidateMasks(
+  grid: SudokuGrid,
+  layout: MemokuLayout = createStandardLayout(grid.length),
+  constraints: MemokuConstraint[] = []
+): number[] {
+  const { size, cellCount, allDigits, peers } = getGeometry(layout, constraints);
+  const masks: number[] = Array(cellCount).fill(0);
+
+  for (let cell = 0; cell < cellCount; cell++) {
+    if (grid[Math.floor(cell / size)][cell % size] !== null) continue;
+
+    let mask = allDigits;
+    for (const peer of peers[cell]) {
+      const value = grid[Math.floor(peer / size)][peer % size];
+      if (value !== null) mask &= ~(1 << (value - 1));
+    }
+    masks[cell] = mask;
+  }
+
+  return masks;
+}
 
-      if (solveSudoku(grid)) {
-        return true;
+/**
+ * Finds givens that can't all be right, for live feedback while typing
+ * Each duplicated pair is reported once, under the first unit that contains it
+ * (rows, then columns, then regions, then constraint groups)
+ * @param layout - Size and regions (standard boxes for the grid's size by default)
+ * @param constraints - Variant constraints whose groups also count as units
+ * @returns Duplicate pairs first, then empty cells with no candidates left
+ */
+export function findConflicts(
+  grid: SudokuGrid,
+  layout: MemokuLayout = createStandardLayout(grid.length),
+  constraints: MemokuConstraint[] = []
+): GridConflict[] {
+  const { size, cellCount, allDigits, units, peers } = getGeometry(layout, constraints);
+  const valueAt = (cell: number) => grid[Math.floor(cell / size)][cell % size];
+  const toCellRef = (cell: number): CellRef => ({ row: Math.floor(cell / size), col: cell % size });
+  const conflicts: GridConflict[] = [];
+  const reported = new Set<string>();
+
+  for (const unit of units) {
+    const filled = unit.cells.filter(cell => valueAt(cell) !== null);
+    for (let i = 0; i < filled.length; i++) {
+      for (let j = i + 1; j < filled.length; j++) {
+        const key = `${filled[i]}-${filled[j]}`;
+        if (valueAt(filled[i]) !== valueAt(filled[j]) || reported.has(key)) continue;
+        reported.add(key);
+
+        const cells = [toCellRef(filled[i]), toCellRef(filled[j])];
+        conflicts.push({
+          kind: 'duplicate',
+          cells,
+          unit,
+          message: `${describeCell(cells[0])} and ${describeCell(cells[1])} both have ${valueAt(filled[i])} in ${describeUnit(unit)}.`,
+        });
       }
+    }
+  }
+
+  for (let cell = 0; cell < cellCount; cell++) {
+    if (valueAt(cell) !== null) continue;
 
-      // Backtrack
-      grid[row][col] = null;
+    let mask = allDigits;
+    for (const peer of peers[cell]) {
+      const value = valueAt(peer);
+      if (value !== null) mask &= ~(1 << (value - 1));
+    }
+    if (mask === 0) {
+      conflicts.push({
+        kind: 'no-candidates',
+        cells: [toCellRef(cell)],
+        message: `${describeCell(toCellRef(cell))} has no digit left: every digit from 1 to ${size} already appears in its row, column or box.`,
+      });
     }
   }
 
-  return false;
+  return conflicts;
+}
+
+function cloneState(state: CandidateState): CandidateState {
+  return {
+    geometry: state.geometry,
+    constraints: state.constraints,
+    values: [...state.values],
+    candidates: [...state.candidates],
+  };
+}
+
+/**
+ * Depth-first search over candidate states
+ * Propagates singles at every node and branches on the cell with the
+ * fewest candidates (minimum remaining values)
+ * @param limit - Stop once this many solutions are found
+ */
+function searchSolutions(
+  state: CandidateState,
+  limit: number,
+  solutions: number[][],
+  stats: SearchStats
+): void {
+  stats.nodesVisited++;
+  if (stats.onProgress && stats.nodesVisited % PROGRESS_INTERVAL === 0) {
+    stats.onProgress({ candidatesChecked: stats.nodesVisited, wordsFound: 0 });
+  }
+
+  if (!propagate(state)) return;
+
+  let bestCell = -1;
+  let bestCount = state.geometry.size + 1;
+  for (let cell = 0; cell < state.geometry.cellCount; cell++) {
+    if (state.values[cell] !== 0) continue;
+    const count = bitCount(state.candidates[cell]);
+    if (count < bestCount) {
+      bestCell = cell;
+      bestCount = count;
+    }
+  }
+
+  if (bestCell === -1) {
+    solutions.push([...state.values]);
+    return;
+  }
+
+  for (const digit of digitsOf(state.candidates[bestCell])) {
+    const branch = cloneState(state);
+    if (assign(branch, bestCell, digit)) {
+      searchSolutions(branch, limit, solutions, stats);
+      if (solutions.length >= limit) return;
+    }
+  }
+}
+
+function toGrid(values: number[], size: number): SudokuGrid {
+  return Array.from({ length: size }, (_, row) => values.slice(row * size, (row + 1) * size));
+}
+
+/**
+ * Finds up to `limit` solutions of a puzzle
+ * @param grid - Grid with initial values (null for empty cells)
+ * @param limit - Maximum number of solutions to look for (2 is enough to prove uniqueness)
+ * @param onProgress - Optional callback for progress updates
+ * @param layout - Size and regions (standard boxes for the grid's size by default)
+ * @param constraints - Variant constraints the solutions must also satisfy
+ * @returns The solutions found (empty if the puzzle has none)
+ */
+export function findSolutions(
+  grid: SudokuGrid,
+  limit: number = 2,
+  onProgress?: ProgressCallback,
+  layout: MemokuLayout = createStandardLayout(grid.length),
+  constraints: MemokuConstraint[] = []
+): SudokuGrid[] {
+  const geometry = getGeometry(layout, constraints);
+  const state = createCandidateState(grid, geometry, constraints);
+  if (!state) return [];
+
+  const solutions: number[][] = [];
+  searchSolutions(state, limit, solutions, { nodesVisited: 0, onProgress });
+  return solutions.map(values => toGrid(values, geometry.size));
 }
 
 /**
@@ -98,14 +739,19 @@ function copyGrid(grid: SudokuGrid): SudokuGrid {
 /**
  * Validates the initial grid setup
  */
-function validateInitialGrid(grid: SudokuGrid): boolean {
-  for (let row = 0; row < 9; row++) {
-    for (let col = 0; col < 9; col++) {
+function validateInitialGrid(grid: SudokuGrid, geometry: MemokuGeometry): boolean {
+  const { size } = geometry;
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
       const value = grid[row][col];
       if (value !== null) {
+        if (value < 1 || value > size) {
+          return false;
+        }
+
         // Temporarily remove the value to check if placement is valid
         grid[row][col] = null;
-        const valid = isValidPlacement(grid, row, col, value);
+        const valid = isValidPlacement(grid, geometry, row, col, value);
         grid[row][col] = value;
 
         if (!valid) {
@@ -118,52 +764,128 @@ function validateInitialGrid(grid: SudokuGrid): boolean {
 }
 
 /**
- * Solves a Memoku (Sudoku) puzzle
- * @param grid - 9x9 grid with initial values (null for empty cells)
- * @returns Solution object with solved grid
+ * Finds a constraint the givens already break on their own
+ * (an odd digit in an even cell, a cage already over its sum, ...)
+ */
+function findBrokenConstraint(
+  grid: SudokuGrid,
+  geometry: MemokuGeometry,
+  constraints: MemokuConstraint[]
+): MemokuConstraint | null {
+  const { size, allDigits } = geometry;
+  const givens = grid.flat().map(value => (value === null ? allDigits : 1 << (value - 1)));
+
+  for (const constraint of constraints) {
+    const { prune } = getConstraintPlugin(constraint);
+    if (prune && !prune(constraint, [...givens], size)) return constraint;
+  }
+  return null;
+}
+
+/**
+ * Solves a Memoku (Sudoku) puzzle and checks whether the solution is unique
+ * @param grid - Grid with initial values (null for empty cells)
+ * @param onProgress - Optional callback for progress updates
+ * @param layout - Size and regions (standard boxes for the grid's size by default)
+ * @param constraints - Variant constraints (diagonals, cages, thermometers, parity)
+ * @returns Solution object with solved grid and uniqueness status
  */
-export function solveMemoku(grid: SudokuGrid): MemokuSolution {
+export function solveMemoku(
+  grid: SudokuGrid,
+  onProgress?: ProgressCallback,
+  layout: MemokuLayout = createStandardLayout(grid.length),
+  constraints: MemokuConstraint[] = []
+): MemokuSolution {
+  const layoutError = validateLayout(layout) ?? validateConstraints(constraints, layout.size);
+  if (layoutError) {
+    return {
+      solved: false,
+      grid: grid,
+      status: 'invalid',
+      error: layoutError,
+    };
+  }
+
   // Validate grid dimensions
-  if (grid.length !== 9 || !grid.every(row => row.length === 9)) {
+  const { size } = layout;
+  if (grid.length !== size || !grid.every(row => row.length === size)) {
     return {
       solved: false,
       grid: grid,
-      error: 'Invalid grid dimensions. Must be 9x9.',
+      status: 'invalid',
+      error: `Invalid grid dimensions. Must be ${size}x${size}.`,
     };
   }
 
+  const geometry = getGeometry(layout, constraints);
+
   // Create a copy to avoid modifying the original
   const workingGrid = copyGrid(grid);
 
   // Validate initial setup
-  if (!validateInitialGrid(workingGrid)) {
+  if (!validateInitialGrid(workingGrid, geometry)) {
+    const [conflict] = findConflicts(workingGrid, layout, constraints);
     return {
       solved: false,
       grid: grid,
-      error: 'Invalid initial grid. Contains conflicting values.',
+      status: 'invalid',
+      error: `Invalid initial grid. ${conflict?.message ?? 'Contains conflicting values.'}`,
     };
   }
 
-  // Attempt to solve
-  const solved = solveSudoku(workingGrid);
-
-  if (solved) {
+  const broken = findBrokenConstraint(workingGrid, geometry, constraints);
+  if (broken) {
     return {
-      solved: true,
-      grid: workingGrid,
+      solved: false,
+      grid: grid,
+      status: 'invalid',
+      error: `The givens break a constraint: ${getConstraintPlugin(broken).describe(broken)}.`,
     };
-  } else {
+  }
+
+  // Look for two solutions: one to answer, a second to disprove uniqueness
+  const solutions = findSolutions(workingGrid, 2, onProgress, layout, constraints);
+
+  if (solutions.length === 0) {
     return {
       solved: false,
       grid: grid,
+      status: 'no-solution',
       error: 'No solution exists for this puzzle.',
     };
   }
+
+  if (solutions.length === 1) {
+    return {
+      solved: true,
+      grid: solutions[0],
+      status: 'unique',
+    };
+  }
+
+  const [first, second] = solutions;
+  const differingCells: { row: number; col: number }[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (first[row][col] !== second[row][col]) {
+        differingCells.push({ row, col });
+      }
+    }
+  }
+
+  return {
+    solved: true,
+    grid: first,
+    status: 'multiple',
+    alternateGrid: second,
+    differingCells,
+  };
 }
 
 /**
- * Creates an empty 9x9 Sudoku grid
+ * Creates an empty Sudoku grid
+ * @param size - Rows and columns (9 by default)
  */
-export function createEmptyGrid(): SudokuGrid {
-  return Array(9).fill(null).map(() => Array(9).fill(null));
+export function createEmptyGrid(size: number = 9): SudokuGrid {
+  return Array(size).fill(null).map(() => Array(size).fill(null));
 }
@@ -0,0 +1,139 @@
+import { SudokuGrid, StarCell, createEmptyGrid, digitsOf, findSolutions, getCandidateMasks } from './memoku';
+import { Difficulty, DifficultyRating, gradeMemoku } from './memokuTechniques';
+import { ProgressCallback } from './progress';
+import { RandomSource, createRandom, shuffle } from '../utils/random';
+
+export interface GeneratorOptions {
+  seed: number;
+  difficulty: Difficulty;
+  /** Place the gold, purple and green stars on three empty cells */
+  withStars?: boolean;
+}
+
+export interface GeneratedPuzzle {
+  grid: SudokuGrid;
+  solution: SudokuGrid;
+  stars: StarCell[];
+  seed: number;
+  rating: DifficultyRating;
+}
+
+const SIZE = 9;
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+// Fresh grids to try before settling for the closest rating found
+const MAX_ATTEMPTS = 60;
+
+// Random givens to place before letting the solver complete the grid
+const SEED_GIVENS = 20;
+
+const STAR_COLORS: StarCell['color'][] = ['gold', 'purple', 'green'];
+
+/**
+ * Builds a random complete grid
+ * Places random consistent digits, then lets the solver fill in the rest
+ */
+function generateFullGrid(random: RandomSource): SudokuGrid {
+  const grid = createEmptyGrid();
+  const cells = shuffle(Array.from({ length: SIZE * SIZE }, (_, cell) => cell), random);
+  let placed = 0;
+
+  for (const cell of cells) {
+    if (placed === SEED_GIVENS) break;
+
+    const row = Math.floor(cell / SIZE);
+    const col = cell % SIZE;
+    for (const digit of shuffle(digitsOf(getCandidateMasks(grid)[cell]), random)) {
+      grid[row][col] = digit;
+      if (findSolutions(grid, 1).length > 0) {
+        placed++;
+        break;
+      }
+      grid[row][col] = null;
+    }
+  }
+
+  return findSolutions(grid, 1)[0];
+}
+
+/**
+ * Removes givens in random order (keeping 180° rotational symmetry) as long
+ * as the solution stays unique and the rating stays at or below the target
+ */
+function removeClues(
+  solution: SudokuGrid,
+  difficulty: Difficulty,
+  random: RandomSource,
+  stats: { candidatesChecked: number; onProgress?: ProgressCallback }
+): SudokuGrid {
+  const grid = solution.map(row => [...row]);
+  const maxLevel = DIFFICULTIES.indexOf(difficulty);
+  // Each cell and its mirror are removed together, so only visit half the board
+  const cells = shuffle(Array.from({ length: Math.ceil((SIZE * SIZE) / 2) }, (_, cell) => cell), random);
+
+  for (const cell of cells) {
+    const mirror = SIZE * SIZE - 1 - cell;
+    const positions = [cell, mirror].map(index => ({ row: Math.floor(index / SIZE), col: index % SIZE }));
+    const saved = positions.map(({ row, col }) => grid[row][col]);
+
+    positions.forEach(({ row, col }) => (grid[row][col] = null));
+
+    stats.candidatesChecked++;
+    stats.onProgress?.({ candidatesChecked: stats.candidatesChecked, wordsFound: 0 });
+
+    const unique = findSolutions(grid, 2).length === 1;
+    const rating = unique ? gradeMemoku(grid) : null;
+    if (!rating || DIFFICULTIES.indexOf(rating.difficulty) > maxLevel) {
+      positions.forEach(({ row, col }, i) => (grid[row][col] = saved[i]));
+    }
+  }
+
+  return grid;
+}
+
+/**
+ * Picks three distinct empty cells for the gold, purple and green stars
+ */
+function placeStars(grid: SudokuGrid, random: RandomSource): StarCell[] {
+  const empty: { row: number; col: number }[] = [];
+  grid.forEach((row, rowIndex) => row.forEach((value, colIndex) => {
+    if (value === null) empty.push({ row: rowIndex, col: colIndex });
+  }));
+
+  return shuffle(empty, random)
+    .slice(0, STAR_COLORS.length)
+    .map((cell, i) => ({ ...cell, color: STAR_COLORS[i] }));
+}
+
+/**
+ * Generates a puzzle with a unique solution, reproducible from its seed
+ * Tries fresh grids until one rates exactly at the target difficulty, keeping
+ * the hardest one that doesn't overshoot if none does
+ * @param options - Seed, target difficulty and whether to place stars
+ * @param onProgress - Optional callback, reports clue removals tried
+ * @returns The puzzle, its solution and its rating
+ */
+export function generateMemoku(options: GeneratorOptions, onProgress?: ProgressCallback): GeneratedPuzzle {
+  const random = createRandom(options.seed);
+  const target = DIFFICULTIES.indexOf(options.difficulty);
+  const stats = { candidatesChecked: 0, onProgress };
+  let best: Omit<GeneratedPuzzle, 'stars' | 'seed'> | null = null;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const solution = generateFullGrid(random);
+    const grid = removeClues(solution, options.difficulty, random, stats);
+    const rating = gradeMemoku(grid)!;
+
+    if (!best || DIFFICULTIES.indexOf(rating.difficulty) > DIFFICULTIES.indexOf(best.rating.difficulty)) {
+      best = { grid, solution, rating };
+    }
+    if (DIFFICULTIES.indexOf(rating.difficulty) === target) break;
+  }
+
+  return {
+    ...best!,
+    stars: options.withStars ? placeStars(best!.grid, random) : [],
+    seed: options.seed,
+  };
+}
@@ -0,0 +1,95 @@
+import { SudokuGrid, StarCell, CellRef } from './memoku';
+
+export interface RecallScore {
+  correct: number;
+  total: number;
+  /** Fraction of recalled cells that match the solution, from 0 to 1 */
+  accuracy: number;
+  /** Cells left blank or filled with the wrong digit */
+  mistakes: CellRef[];
+}
+
+export interface PracticeResult {
+  date: string;
+  size: number;
+  memorizeSeconds: number;
+  recallMs: number;
+  correct: number;
+  total: number;
+  accuracy: number;
+}
+
+export interface PracticeSummary {
+  sessions: number;
+  bestAccuracy: number;
+  averageAccuracy: number;
+  /** Fastest recall among sessions with every cell correct */
+  fastestPerfectMs: number | null;
+}
+
+/**
+ * Returns the cells the player has to recall
+ * Givens stay on the board and starred cells are revealed as anchors
+ */
+export function getRecallCells(givens: SudokuGrid, stars: StarCell[]): CellRef[] {
+  const cells: CellRef[] = [];
+  givens.forEach((row, r) => row.forEach((value, c) => {
+    if (value === null && !stars.some(s => s.row === r && s.col === c)) {
+      cells.push({ row: r, col: c });
+    }
+  }));
+  return cells;
+}
+
+/**
+ * Builds the board shown while recalling: the givens plus the starred digits
+ */
+export function createRecallGrid(givens: SudokuGrid, solution: SudokuGrid, stars: StarCell[]): SudokuGrid {
+  const grid = givens.map(row => [...row]);
+  for (const star of stars) {
+    grid[star.row][star.col] = solution[star.row][star.col];
+  }
+  return grid;
+}
+
+/**
+ * Compares a recalled grid with the solution
+ * @param givens - The puzzle as entered, before solving
+ * @param solution - The solved grid that was memorized
+ * @param attempt - The grid as re-entered from memory
+ * @param stars - Starred cells, which are shown as anchors and not scored
+ * @returns How many recall cells were right, and which ones were not
+ */
+export function scoreRecall(
+  givens: SudokuGrid,
+  solution: SudokuGrid,
+  attempt: SudokuGrid,
+  stars: StarCell[]
+): RecallScore {
+  const cells = getRecallCells(givens, stars);
+  const mistakes = cells.filter(({ row, col }) => attempt[row][col] !== solution[row][col]);
+  const correct = cells.length - mistakes.length;
+
+  return {
+    correct,
+    total: cells.length,
+    accuracy: cells.length === 0 ? 1 : correct / cells.length,
+    mistakes,
+  };
+}
+
+/**
+ * Sums up saved practice sessions to show progress over time
+ */
+export function summarizePractice(results: PracticeResult[]): PracticeSummary | null {
+  if (results.length === 0) return null;
+
+  const perfectTimes = results.filter(r => r.correct === r.total).map(r => r.recallMs);
+
+  return {
+    sessions: results.length,
+    bestAccuracy: Math.max(...results.map(r => r.accuracy)),
+    averageAccuracy: results.reduce((sum, r) => sum + r.accuracy, 0) / results.length,
+    fastestPerfectMs: perfectTimes.length > 0 ? Math.min(...perfectTimes) : null,
+  };
+}
@@ -0,0 +1,526 @@
+import {
+  SudokuGrid,
+  MemokuConstraint,
+  MemokuLayout,
+  MemokuGeometry,
+  MemokuUnit,
+  bitCount,
+  digitsOf,
+  describeUnit,
+  createStandardLayout,
+  getConstraintPlugin,
+  getGeometry,
+  getCandidateMasks,
+} from './memoku';
+
+/**
+ * Human solving techniques, easiest first
+ */
+export type Technique =
+  | 'naked-single'
+  | 'hidden-single'
+  | 'variant-rule'
+  | 'pointing-pair'
+  | 'box-line-reduction'
+  | 'naked-pair'
+  | 'hidden-pair'
+  | 'x-wing';
+
+export const TECHNIQUES: Technique[] = [
+  'naked-single',
+  'hidden-single',
+  'variant-rule',
+  'pointing-pair',
+  'box-line-reduction',
+  'naked-pair',
+  'hidden-pair',
+  'x-wing',
+];
+
+export const TECHNIQUE_NAMES: Record<Technique, string> = {
+  'naked-single': 'Naked single',
+  'hidden-single': 'Hidden single',
+  'variant-rule': 'Variant rule',
+  'pointing-pair': 'Pointing pair',
+  'box-line-reduction': 'Box/line reduction',
+  'naked-pair': 'Naked pair',
+  'hidden-pair': 'Hidden pair',
+  'x-wing': 'X-wing',
+};
+
+export interface CellDigit {
+  row: number;
+  col: number;
+  value: number;
+}
+
+/**
+ * One logical deduction
+ * A step either places a digit or removes candidates (eliminations), never both
+ */
+export interface HintStep {
+  technique: Technique;
+  placement?: CellDigit;
+  eliminations: CellDigit[];
+  /** Cells whose candidates justify the deduction */
+  cells: { row: number; col: number }[];
+  explanation: string;
+}
+
+/**
+ * Grid plus pencil-mark candidates as hints are applied
+ * candidates are bitmasks per cell index (bit d - 1 means digit d); filled cells are 0
+ */
+export interface HintState {
+  grid: SudokuGrid;
+  layout: MemokuLayout;
+  /** Variant constraints; their groups count as units and their rules remove candidates */
+  constraints: MemokuConstraint[];
+  candidates: number[];
+}
+
+type Finder = (state: HintState, geometry: MemokuGeometry) => HintStep | null;
+
+/**
+ * Cell index helpers for one grid size
+ */
+function cellHelpers(size: number) {
+  const toCell = (cell: number) => ({ row: Math.floor(cell / size), col: cell % size });
+  const toCellDigit = (cell: number, value: number): CellDigit => ({ ...toCell(cell), value });
+  // Names a cell for explanations, e.g. R3C7 (1-based)
+  const cellName = (cell: number) => `R${Math.floor(cell / size) + 1}C${(cell % size) + 1}`;
+  return { toCell, toCellDigit, cellName };
+}
+
+function listNames(names: string[]): string {
+  return names.length <= 1
+    ? names.join('')
+    : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Checks whether a unit holds every digit once, not just distinct digits
+ * Only these support "the digit must go somewhere in here" reasoning; a killer
+ * cage shorter than the grid may leave digits out
+ */
+function isCompleteUnit(unit: MemokuUnit, size: number): boolean {
+  return unit.cells.length === size;
+}
+
+/**
+ * Candidates in the form constraint plugins prune: a placed cell has just its digit
+ */
+function withPlacedDigits(state: HintState): number[] {
+  const { size } = state.layout;
+  return state.candidates.map((mask, cell) => {
+    const value = state.grid[Math.floor(cell / size)][cell % size];
+    return value === null ? mask : 1 << (value - 1);
+  });
+}
+
+/**
+ * Cells in a unit that still have digit as a candidate
+ */
+function cellsWithDigit(state: HintState, unit: MemokuUnit, digit: number): number[] {
+  const bit = 1 << (digit - 1);
+  return unit.cells.filter(cell => state.candidates[cell] & bit);
+}
+
+/**
+ * Lists digit eliminations from cells that still have the digit
+ */
+function eliminate(state: HintState, cells: number[], digit: number): CellDigit[] {
+  const { toCellDigit } = cellHelpers(state.layout.size);
+  const bit = 1 << (digit - 1);
+  return cells
+    .filter(cell => state.candidates[cell] & bit)
+    .map(cell => toCellDigit(cell, digit));
+}
+
+/**
+ * Starts a hint session from the current grid
+ * @param layout - Size and regions (standard boxes for the grid's size by default)
+ * @param constraints - Variant constraints the hints must respect
+ */
+export function createHintState(
+  grid: SudokuGrid,
+  layout: MemokuLayout = createStandardLayout(grid.length),
+  constraints: MemokuConstraint[] = []
+): HintState {
+  return {
+    grid: grid.map(row => [...row]),
+    layout,
+    constraints,
+    candidates: getCandidateMasks(grid, layout, constraints),
+  };
+}
+
+/**
+ * Checks whether the state can't lead to a solution: a digit repeated in a
+ * unit, an empty cell with no candidates left, or a broken constraint
+ */
+export function hasContradiction(state: HintState): boolean {
+  const { size } = state.layout;
+  const broken = state.constraints.some(constraint =>
+    getConstraintPlugin(constraint).prune?.(constraint, withPlacedDigits(state), size) === false
+  );
+  if (broken) return true;
+
+  for (const unit of getGeometry(state.layout, state.constraints).units) {
+    const seen = new Set<number>();
+    for (const cell of unit.cells) {
+      const value = state.grid[Math.floor(cell / size)][cell % size];
+      if (value === null) {
+        if (state.candidates[cell] === 0) return true;
+      } else if (seen.has(value)) {
+        return true;
+      } else {
+        seen.add(value);
+      }
+    }
+  }
+  return false;
+}
+
+export function isComplete(state: HintState): boolean {
+  return state.grid.every(row => row.every(value => value !== null));
+}
+
+const findNakedSingle: Finder = (state, { cellCount, size }) => {
+  const { toCell, toCellDigit, cellName } = cellHelpers(size);
+  for (let cell = 0; cell < cellCount; cell++) {
+    const mask = state.candidates[cell];
+    if (bitCount(mask) !== 1) continue;
+
+    const [value] = digitsOf(mask);
+    return {
+      technique: 'naked-single',
+      placement: toCellDigit(cell, value),
+      eliminations: [],
+      cells: [toCell(cell)],
+      explanation: `${value} is the only candidate left for ${cellName(cell)}, so it goes there.`,
+    };
+  }
+  return null;
+};
+
+const findHiddenSingle: Finder = (state, { units, size }) => {
+  const { toCell, toCellDigit, cellName } = cellHelpers(size);
+  for (const unit of units.filter(unit => isCompleteUnit(unit, size))) {
+    for (let digit = 1; digit <= size; digit++) {
+      const places = cellsWithDigit(state, unit, digit);
+      if (places.length !== 1) continue;
+
+      return {
+        technique: 'hidden-single',
+        placement: toCellDigit(places[0], digit),
+        eliminations: [],
+        cells: unit.cells.filter(cell => cell !== places[0]).map(toCell),
+        explanation: `${cellName(places[0])} is the only place in ${describeUnit(unit)} where ${digit} can go.`,
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Removes the candidates a variant constraint rules out on its own
+ * (a cage sum that can't be reached, a thermometer that can't rise, an odd or even cell)
+ */
+const findVariantRule: Finder = (state, { size }) => {
+  const { toCell, toCellDigit, cellName } = cellHelpers(size);
+  for (const constraint of state.constraints) {
+    const plugin = getConstraintPlugin(constraint);
+    const pruned = withPlacedDigits(state);
+    if (!plugin.prune?.(constraint, pruned, size)) continue;
+
+    const eliminations = state.candidates.flatMap((mask, cell) =>
+      digitsOf(mask & ~pruned[cell]).map(value => toCellDigit(cell, value))
+    );
+    if (eliminations.length === 0) continue;
+
+    const cells = Array.from(new Set(eliminations.map(({ row, col }) => row * size + col)));
+    return {
+      technique: 'variant-rule',
+      eliminations,
+      cells: cells.map(toCell),
+      explanation: `${plugin.describe(constraint)}, which rules out ` +
+        `${listNames(eliminations.map(({ row, col, value }) => `${value} in ${cellName(row * size + col)}`))}.`,
+    };
+  }
+  return null;
+};
+
+/**
+ * Shared search for pointing pairs (box -> line) and box/line reduction (line -> box):
+ * when every candidate for a digit in one unit lies inside a second unit, the
+ * digit can be removed from the rest of the second unit
+ */
+function findIntersection(
+  state: HintState,
+  { units, size }: MemokuGeometry,
+  technique: 'pointing-pair' | 'box-line-reduction'
+): HintStep | null {
+  const { toCell, cellName } = cellHelpers(size);
+  // The digit has to be somewhere in the source, so it must be a complete unit
+  const sources = units.filter(unit =>
+    (technique === 'pointing-pair') === (unit.kind === 'box') && isCompleteUnit(unit, size)
+  );
+  const targets = units.filter(unit => (technique === 'pointing-pair') !== (unit.kind === 'box'));
+
+  for (const source of sources) {
+    for (let digit = 1; digit <= size; digit++) {
+      const places = cellsWithDigit(state, source, digit);
+      if (places.length < 2) continue;
+
+      for (const target of targets) {
+        if (!places.every(cell => target.cells.includes(cell))) continue;
+
+        const rest = target.cells.filter(cell => !source.cells.includes(cell));
+        const eliminations = eliminate(state, rest, digit);
+        if (eliminations.length === 0) continue;
+
+        return {
+          technique,
+          eliminations,
+          cells: places.map(toCell),
+          explanation: `In ${describeUnit(source)}, ${digit} can only go in ${describeUnit(target)} ` +
+            `(${listNames(places.map(cellName))}), so ${digit} can be removed from the rest of ${describeUnit(target)}.`,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+const findPointingPair: Finder = (state, geometry) => findIntersection(state, geometry, 'pointing-pair');
+
+const findBoxLineReduction: Finder = (state, geometry) => findIntersection(state, geometry, 'box-line-reduction');
+
+const findNakedPair: Finder = (state, { units, size }) => {
+  const { toCell, cellName } = cellHelpers(size);
+  for (const unit of units) {
+    const pairs = unit.cells.filter(cell => bitCount(state.candidates[cell]) === 2);
+
+    for (let i = 0; i < pairs.length; i++) {
+      for (let j = i + 1; j < pairs.length; j++) {
+        const mask = state.candidates[pairs[i]];
+        if (state.candidates[pairs[j]] !== mask) continue;
+
+        const [a, b] = digitsOf(mask);
+        const others = unit.cells.filter(cell => cell !== pairs[i] && cell !== pairs[j]);
+        const eliminations = [...eliminate(state, others, a), ...eliminate(state, others, b)];
+        if (eliminations.length === 0) continue;
+
+        return {
+          technique: 'naked-pair',
+          eliminations,
+          cells: [toCell(pairs[i]), toCell(pairs[j])],
+          explanation: `${cellName(pairs[i])} and ${cellName(pairs[j])} can only be ${a} or ${b}, ` +
+            `so ${a} and ${b} can be removed from the other cells of ${describeUnit(unit)}.`,
+        };
+      }
+    }
+  }
+  return null;
+};
+
+const findHiddenPair: Finder = (state, { units, size }) => {
+  const { toCell, toCellDigit, cellName } = cellHelpers(size);
+  for (const unit of units.filter(unit => isCompleteUnit(unit, size))) {
+    const placesByDigit = new Map<number, number[]>();
+    for (let digit = 1; digit <= size; digit++) {
+      const places = cellsWithDigit(state, unit, digit);
+      if (places.length === 2) placesByDigit.set(digit, places);
+    }
+
+    const digits = Array.from(placesByDigit.keys());
+    for (let i = 0; i < digits.length; i++) {
+      for (let j = i + 1; j < digits.length; j++) {
+        const [first, second] = placesByDigit.get(digits[i])!;
+        const [otherFirst, otherSecond] = placesByDigit.get(digits[j])!;
+        if (first !== otherFirst || second !== otherSecond) continue;
+
+        const keep = (1 << (digits[i] - 1)) | (1 << (digits[j] - 1));
+        const eliminations = [first, second].flatMap(cell =>
+          digitsOf(state.candidates[cell] & ~keep).map(value => toCellDigit(cell, value))
+        );
+        if (eliminations.length === 0) continue;
+
+        return {
+          technique: 'hidden-pair',
+          eliminations,
+          cells: [toCell(first), toCell(second)],
+          explanation: `In ${describeUnit(unit)}, ${digits[i]} and ${digits[j]} only fit in ` +
+            `${cellName(first)} and ${cellName(second)}, so those cells can't hold any other digit.`,
+        };
+      }
+    }
+  }
+  return null;
+};
+
+const findXWing: Finder = (state, { units, size }) => {
+  const { toCell } = cellHelpers(size);
+  for (const [baseKind, coverKind] of [['row', 'column'], ['column', 'row']] as const) {
+    const bases = units.filter(unit => unit.kind === baseKind);
+    const covers = units.filter(unit => unit.kind === coverKind);
+    // Position of a cell along a base unit, i.e. which cover unit it is in
+    const coverIndex = (cell: number) => (baseKind === 'row' ? cell % size : Math.floor(cell / size));
+
+    for (let digit = 1; digit <= size; digit++) {
+      const candidates = bases
+        .map(unit => ({ unit, places: cellsWithDigit(state, unit, digit) }))
+        .filter(({ places }) => places.length === 2);
+
+      for (let i = 0; i < candidates.length; i++) {
+        for (let j = i + 1; j < candidates.length; j++) {
+          const first = candidates[i].places.map(coverIndex);
+          const second = candidates[j].places.map(coverIndex);
+          if (first[0] !== second[0] || first[1] !== second[1]) continue;
+
+          const corners = [...candidates[i].places, ...candidates[j].places];
+          const rest = first
+            .flatMap(index => covers[index].cells)
+            .filter(cell => !corners.includes(cell));
+          const eliminations = eliminate(state, rest, digit);
+          if (eliminations.length === 0) continue;
+
+          return {
+            technique: 'x-wing',
+            eliminations,
+            cells: corners.map(toCell),
+            explanation: `In ${describeUnit(candidates[i].unit)} and ${describeUnit(candidates[j].unit)}, ` +
+              `${digit} can only go in ${coverKind}s ${first[0] + 1} and ${first[1] + 1}, ` +
+              `so ${digit} can be removed from the rest of those ${coverKind}s.`,
+          };
+        }
+      }
+    }
+  }
+  return null;
+};
+
+const FINDERS: Record<Technique, Finder> = {
+  'naked-single': findNakedSingle,
+  'hidden-single': findHiddenSingle,
+  'variant-rule': findVariantRule,
+  'pointing-pair': findPointingPair,
+  'box-line-reduction': findBoxLineReduction,
+  'naked-pair': findNakedPair,
+  'hidden-pair': findHiddenPair,
+  'x-wing': findXWing,
+};
+
+/**
+ * Finds the next deduction using the easiest technique that applies
+ * @returns null when the grid is complete, contradictory, or needs a technique
+ * beyond the ones supported
+ */
+export function findNextStep(state: HintState): HintStep | null {
+  if (hasContradiction(state)) return null;
+
+  const geometry = getGeometry(state.layout, state.constraints);
+  for (const technique of TECHNIQUES) {
+    const step = FINDERS[technique](state, geometry);
+    if (step) return step;
+  }
+  return null;
+}
+
+/**
+ * Applies a step, returning a new state
+ * Placements also remove the digit from every peer; earlier eliminations are kept
+ */
+export function applyStep(state: HintState, step: HintStep): HintState {
+  const { size, peers } = getGeometry(state.layout, state.constraints);
+  const grid = state.grid.map(row => [...row]);
+  const candidates = [...state.candidates];
+
+  if (step.placement) {
+    const { row, col, value } = step.placement;
+    const cell = row * size + col;
+    grid[row][col] = value;
+    candidates[cell] = 0;
+    for (const peer of peers[cell]) {
+      candidates[peer] &= ~(1 << (value - 1));
+    }
+  }
+
+  for (const { row, col, value } of step.eliminations) {
+    candidates[row * size + col] &= ~(1 << (value - 1));
+  }
+
+  return { grid, layout: state.layout, constraints: state.constraints, candidates };
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+/**
+ * Rating implied by each technique
+ * Puzzles the techniques can't finish are rated expert as well
+ */
+const TECHNIQUE_DIFFICULTY: Record<Technique, Difficulty> = {
+  'naked-single': 'easy',
+  'hidden-single': 'easy',
+  'variant-rule': 'medium',
+  'pointing-pair': 'medium',
+  'box-line-reduction': 'medium',
+  'naked-pair': 'hard',
+  'hidden-pair': 'hard',
+  'x-wing': 'expert',
+};
+
+export interface DifficultyRating {
+  difficulty: Difficulty;
+  /** Hardest technique the logical solve needed (null if no steps were taken) */
+  hardestTechnique: Technique | null;
+  /** Number of steps taken, counting placements and eliminations */
+  steps: number;
+  /** False if the techniques got stuck before the grid was complete */
+  solvedLogically: boolean;
+}
+
+/**
+ * Rates a puzzle by solving it with human techniques only, always using the
+ * easiest one that applies, and recording the hardest one it had to reach for
+ * @param layout - Size and regions (standard boxes for the grid's size by default)
+ * @param constraints - Variant constraints the solve can use
+ * @returns null if the givens conflict with each other
+ */
+export function gradeMemoku(
+  grid: SudokuGrid,
+  layout: MemokuLayout = createStandardLayout(grid.length),
+  constraints: MemokuConstraint[] = []
+): DifficultyRating | null {
+  let state = createHintState(grid, layout, constraints);
+  if (hasContradiction(state)) return null;
+
+  let hardest = -1;
+  let steps = 0;
+  let step = findNextStep(state);
+
+  while (step) {
+    hardest = Math.max(hardest, TECHNIQUES.indexOf(step.technique));
+    steps++;
+    state = applyStep(state, step);
+    step = findNextStep(state);
+  }
+
+  const hardestTechnique = hardest === -1 ? null : TECHNIQUES[hardest];
+  const solvedLogically = isComplete(state);
+
+  let difficulty: Difficulty = 'easy';
+  if (!solvedLogically) {
+    difficulty = 'expert';
+  } else if (hardestTechnique) {
+    difficulty = TECHNIQUE_DIFFICULTY[hardestTechnique];
+  }
+
+  return {
+    difficulty,
+    hardestTechnique,
+    steps,
+    solvedLogically,
+  };
+}
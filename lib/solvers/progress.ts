@@ -0,0 +1,12 @@
+/**
+ * Progress reporting shared by all solvers
+ * Solvers call the callback at natural checkpoints; the worker runtime
+ * throttles and forwards these to the page
+ */
+
+export interface SolverProgress {
+  candidatesChecked: number;
+  wordsFound: number;
+}
+
+export type ProgressCallback = (progress: SolverProgress) => void;
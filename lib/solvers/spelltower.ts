@@ -1,4 +1,5 @@
-import { isValidWordLocal } from '../dictionary';
+import { loadDictionary, DictionaryIndex, DictionaryNode, NO_NODE } from '../dictionary';
+import { ProgressCallback } from './progress';
 
 export type CellType = 'letter' | 'blank' | 'red' | 'starred';
 
@@ -9,109 +10,63 @@ export interface Cell {
 
 export type Grid = Cell[][];
 
+/**
+ * How a move's score is built up
+ * total = (wordValue + bonusValue) x lengthMultiplier x starMultiplier
+ */
+export interface ScoreBreakdown {
+  /** Sum of letter values of the tiles in the word */
+  wordValue: number;
+  /** Sum of letter values of the extra tiles the move clears */
+  bonusValue: number;
+  /** Number of extra tiles the move clears (including blanks) */
+  bonusTiles: number;
+  /** Word length */
+  lengthMultiplier: number;
+  /** 1 + number of starred tiles in the word */
+  starMultiplier: number;
+  total: number;
+}
+
 export interface WordPath {
   word: string;
   path: { row: number; col: number }[];
   score: number;
+  breakdown: ScoreBreakdown;
   hasRedTile: boolean;
   hasStarredTile: boolean;
 }
 
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+export interface MoveResult {
+  /** Board after clearing and gravity */
+  grid: Grid;
+  /** Every cell the move cleared, including the word's own path */
+  clearedCells: CellPosition[];
+  /** Cells cleared beyond the path (adjacent clears, red rows, blanks) */
+  bonusCells: CellPosition[];
+}
+
 export interface SpelltowerSolution {
+  /** Every word playable on the current board */
+  words: WordPath[];
+  /** Recommended order of play, each move on the board left by the previous one */
   sequence: WordPath[];
+  /** Projected total score of the sequence */
   totalScore: number;
+  /** Whether the sequence clears every tile */
   clearedAll: boolean;
 }
 
 const ROWS = 13;
 const COLS = 9;
 
-// Global sorted dictionary for binary search
-let sortedDictionary: string[] | null = null;
-
-/**
- * Load and sort the dictionary for binary search (based on reference solver)
- */
-async function loadSortedDictionary(): Promise<string[]> {
-  if (sortedDictionary) {
-    return sortedDictionary;
-  }
-
-  try {
-    const response = await fetch('/words.txt');
-    if (!response.ok) {
-      throw new Error('Failed to load dictionary');
-    }
-
-    const text = await response.text();
-    const words = text
-      .split('\n')
-      .map(word => word.trim().toLowerCase())
-      .filter(word => word.length > 0);
-
-    sortedDictionary = words.sort();
-    console.log(`Dictionary loaded: ${sortedDictionary.length} words`);
-    return sortedDictionary;
-  } catch (error) {
-    console.error('Error loading dictionary:', error);
-    sortedDictionary = [];
-    return sortedDictionary;
-  }
-}
-
-/**
- * Check if a prefix exists in the dictionary using binary search
- * Based on the reference solver's isValidPrefix function
- */
-function isValidPrefix(dictionary: string[], prefix: string): boolean {
-  if (prefix.length === 0) return true;
-
-  let begin = 0;
-  let end = dictionary.length - 1;
-
-  while (begin <= end) {
-    const mid = Math.floor((begin + end) / 2);
-    const word = dictionary[mid];
-
-    if (word.startsWith(prefix)) {
-      return true;
-    }
-
-    if (prefix < word) {
-      end = mid - 1;
-    } else {
-      begin = mid + 1;
-    }
-  }
-
-  return false;
-}
-
-/**
- * Check if a word exists in the dictionary using binary search
- * Based on the reference solver's isWord function
- */
-function isWord(dictionary: string[], word: string): boolean {
-  let begin = 0;
-  let end = dictionary.length - 1;
-
-  while (begin <= end) {
-    const mid = Math.floor((begin + end) / 2);
-    const dictWord = dictionary[mid];
-
-    if (dictWord === word) {
-      return true;
-    }
-
-    if (word < dictWord) {
-      end = mid - 1;
-    } else {
-      begin = mid + 1;
-    }
-  }
-
-  return false;
-}
+// Words at least this long also clear the tiles next to them
+const ADJACENT_CLEAR_MIN_LENGTH = 5;
 
 /**
  * Gets all adjacent cells (including diagonals)
@@ -158,16 +113,18 @@ function getLetterValue(letter: string): number {
 
 /**
  * DFS traversal to find all words starting from a position
- * Directly based on the reference solver's traverse function
+ * Walks the dictionary index alongside the path so dead prefixes are pruned immediately
  */
 function traverse(
   grid: Grid,
-  dictionary: string[],
+  dictionary: DictionaryIndex,
   visited: boolean[][],
   solutions: Map<string, { word: string; path: { row: number; col: number }[] }>,
+  stats: { candidatesChecked: number },
   x: number,
   y: number,
   value: string,
+  node: DictionaryNode,
   path: { row: number; col: number }[]
 ): void {
   // Bounds check
@@ -181,9 +138,11 @@ function traverse(
   }
 
   const newWord = (value + grid[y][x].letter).toLowerCase();
+  stats.candidatesChecked++;
 
   // Check if prefix is valid
-  if (!isValidPrefix(dictionary, newWord)) {
+  const nextNode = dictionary.child(node, grid[y][x].letter);
+  if (nextNode === NO_NODE) {
     return;
   }
 
@@ -192,7 +151,7 @@ function traverse(
   visited[y][x] = true;
 
   // If it's a valid word of length >= 3, save it
-  if (newWord.length >= 3 && isWord(dictionary, newWord)) {
+  if (newWord.length >= 3 && dictionary.isWord(nextNode)) {
     const pathKey = path.map(p => `${p.row},${p.col}`).join('->');
     if (!solutions.has(pathKey)) {
       solutions.set(pathKey, {
@@ -205,7 +164,7 @@ function traverse(
   // Explore all adjacent cells
   const adjacent = getAdjacentCells(y, x);
   for (const { row: nextY, col: nextX } of adjacent) {
-    traverse(grid, dictionary, visited, solutions, nextX, nextY, newWord, path);
+    traverse(grid, dictionary, visited, solutions, stats, nextX, nextY, newWord, nextNode, path);
   }
 
   // Backtrack
@@ -217,8 +176,12 @@ function traverse(
  * Find all valid words on the grid
  * Based on the reference solver's solve function
  */
-async function findAllWords(grid: Grid): Promise<WordPath[]> {
-  const dictionary = await loadSortedDictionary();
+function findWordsOnGrid(
+  grid: Grid,
+  dictionary: DictionaryIndex,
+  stats: { candidatesChecked: number },
+  onProgress?: ProgressCallback
+): WordPath[] {
   const solutions = new Map<string, { word: string; path: { row: number; col: number }[] }>();
 
   // Initialize visited array
@@ -228,35 +191,25 @@ async function findAllWords(grid: Grid): Promise<WordPath[]> {
   for (let row = 0; row < ROWS; row++) {
     for (let col = 0; col < COLS; col++) {
       if (grid[row][col].letter !== '') {
-        traverse(grid, dictionary, visited, solutions, col, row, '', []);
+        traverse(grid, dictionary, visited, solutions, stats, col, row, '', dictionary.root, []);
+        onProgress?.({ candidatesChecked: stats.candidatesChecked, wordsFound: solutions.size });
       }
     }
   }
 
-  console.log(`Found ${solutions.size} total words`);
-
   // Convert to WordPath objects with scores
   const validWords: WordPath[] = [];
 
   for (const { word, path } of solutions.values()) {
     const hasRedTile = path.some(p => grid[p.row][p.col].type === 'red');
-    const starCount = path.filter(p => grid[p.row][p.col].type === 'starred').length;
-    const hasStarredTile = starCount > 0;
-
-    // Calculate sum of word tile values
-    let tileValueSum = 0;
-    for (const { row, col } of path) {
-      tileValueSum += getLetterValue(grid[row][col].letter);
-    }
-
-    // Puzzmo formula: (Sum of word tile values + sum of bonus tile values) x word length x (1+# star tiles)
-    // For now we don't have bonus tiles (row clears, 5+ length bonus), so just use word tiles
-    let score = tileValueSum * word.length * (1 + starCount);
+    const hasStarredTile = path.some(p => grid[p.row][p.col].type === 'starred');
+    const breakdown = scoreMove(grid, path);
 
     validWords.push({
       word,
       path,
-      score,
+      score: breakdown.total,
+      breakdown,
       hasRedTile,
       hasStarredTile,
     });
@@ -292,76 +245,343 @@ function copyGrid(grid: Grid): Grid {
   return grid.map(row => row.map(cell => ({ ...cell })));
 }
 
+/**
+ * Checks if a cell holds nothing at all (not even a blank tile)
+ */
+function isEmptyCell(cell: Cell): boolean {
+  return cell.letter === '' && cell.type !== 'blank';
+}
+
+/**
+ * Checks if a cell holds a blank tile (an unspellable tile that still takes up space)
+ */
+function isBlankTile(cell: Cell): boolean {
+  return cell.type === 'blank';
+}
+
 /**
  * Applies gravity to the grid after removing tiles
+ * Letter tiles and blank tiles both fall; empty cells rise to the top
  */
 function applyGravity(grid: Grid): void {
   for (let col = 0; col < COLS; col++) {
-    // Collect non-blank cells from bottom to top
-    const nonBlankCells: Cell[] = [];
+    // Collect remaining tiles from bottom to top
+    const tiles: Cell[] = [];
     for (let row = ROWS - 1; row >= 0; row--) {
-      if (grid[row][col].type !== 'blank' && grid[row][col].letter !== '') {
-        nonBlankCells.push({ ...grid[row][col] });
+      if (!isEmptyCell(grid[row][col])) {
+        tiles.push({ ...grid[row][col] });
       }
     }
 
-    // Fill column from bottom with non-blank cells
+    // Fill column from bottom with the tiles
     for (let row = ROWS - 1; row >= 0; row--) {
       const cellIndex = ROWS - 1 - row;
-      if (cellIndex < nonBlankCells.length) {
-        grid[row][col] = nonBlankCells[cellIndex];
+      if (cellIndex < tiles.length) {
+        grid[row][col] = tiles[cellIndex];
       } else {
-        grid[row][col] = { letter: '', type: 'blank' };
+        grid[row][col] = { letter: '', type: 'letter' };
       }
     }
   }
 }
 
 /**
- * Removes tiles from the grid based on a word path
+ * Gets the cells a move clears, without changing the grid
+ *
+ * Rules:
+ * 1. Every tile in the word's path is cleared
+ * 2. Words of 5+ letters also clear the tiles orthogonally adjacent to the path
+ * 3. Blank tiles adjacent to the path are cleared even for short words
+ * 4. A red tile in the path clears its entire row
+ * @param grid - Board before the move
+ * @param path - Tiles spelling the word, in order
+ * @returns Path cells and the extra (bonus) cells cleared by the move
  */
-function removeTiles(grid: Grid, path: { row: number; col: number }[]): void {
+export function getClearedCells(
+  grid: Grid,
+  path: CellPosition[]
+): { pathCells: CellPosition[]; bonusCells: CellPosition[] } {
+  const cleared = new Set(path.map(p => `${p.row},${p.col}`));
+  const bonusCells: CellPosition[] = [];
+
+  const clear = (row: number, col: number) => {
+    const key = `${row},${col}`;
+    if (cleared.has(key) || isEmptyCell(grid[row][col])) return;
+    cleared.add(key);
+    bonusCells.push({ row, col });
+  };
+
+  const clearsAdjacentLetters = path.length >= ADJACENT_CLEAR_MIN_LENGTH;
+
   for (const { row, col } of path) {
-    grid[row][col] = { letter: '', type: 'blank' };
+    const adjacent = [
+      { row: row - 1, col },
+      { row: row + 1, col },
+      { row, col: col - 1 },
+      { row, col: col + 1 },
+    ];
+
+    for (const adj of adjacent) {
+      if (adj.row < 0 || adj.row >= ROWS || adj.col < 0 || adj.col >= COLS) continue;
+      if (clearsAdjacentLetters || isBlankTile(grid[adj.row][adj.col])) {
+        clear(adj.row, adj.col);
+      }
+    }
+  }
+
+  for (const { row, col } of path) {
+    if (grid[row][col].type === 'red') {
+      for (let c = 0; c < COLS; c++) {
+        clear(row, c);
+      }
+    }
+  }
+
+  return { pathCells: path.map(p => ({ ...p })), bonusCells };
+}
+
+/**
+ * Scores a move using the Puzzmo formula
+ * (Sum of word tile values + sum of bonus tile values) x word length x (1 + # star tiles)
+ * Bonus tiles are the letters cleared by adjacent and red-row clears; blank tiles are worth nothing
+ * @param grid - Board before the move
+ * @param path - Tiles spelling the word, in order
+ */
+export function scoreMove(grid: Grid, path: CellPosition[]): ScoreBreakdown {
+  const { bonusCells } = getClearedCells(grid, path);
+
+  const wordValue = path.reduce((sum, { row, col }) => sum + getLetterValue(grid[row][col].letter), 0);
+  const bonusValue = bonusCells.reduce((sum, { row, col }) => sum + getLetterValue(grid[row][col].letter), 0);
+  const lengthMultiplier = path.length;
+  const starMultiplier = 1 + path.filter(({ row, col }) => grid[row][col].type === 'starred').length;
+
+  return {
+    wordValue,
+    bonusValue,
+    bonusTiles: bonusCells.length,
+    lengthMultiplier,
+    starMultiplier,
+    total: (wordValue + bonusValue) * lengthMultiplier * starMultiplier,
+  };
+}
+
+/**
+ * Plays a word on the board
+ * Clears the path and every bonus cell, then applies gravity
+ * @param grid - Board before the move (not modified)
+ * @param path - Tiles spelling the word, in order
+ * @returns New board plus every cell the move cleared
+ */
+export function applyMove(grid: Grid, path: CellPosition[]): MoveResult {
+  const { pathCells, bonusCells } = getClearedCells(grid, path);
+  const newGrid = copyGrid(grid);
+
+  for (const { row, col } of [...pathCells, ...bonusCells]) {
+    newGrid[row][col] = { letter: '', type: 'letter' };
   }
-  applyGravity(grid);
+
+  applyGravity(newGrid);
+
+  return {
+    grid: newGrid,
+    clearedCells: [...pathCells, ...bonusCells],
+    bonusCells,
+  };
 }
 
 /**
  * Checks if the grid is empty (all tiles cleared)
  */
 function isGridEmpty(grid: Grid): boolean {
-  for (let row = 0; row < ROWS; row++) {
-    for (let col = 0; col < COLS; col++) {
-      if (grid[row][col].letter !== '' && grid[row][col].type !== 'blank') {
-        return false;
+  return grid.every(row => row.every(isEmptyCell));
+}
+
+// Default search settings for the sequence optimizer
+const DEFAULT_TIME_BUDGET_MS = 5000;
+const DEFAULT_BEAM_WIDTH = 6;
+const DEFAULT_MOVES_PER_STATE = 8;
+
+// Points credited per tile cleared when ranking partial sequences, so the
+// search favours lines that keep clearing the board
+const CLEARED_TILE_WEIGHT = 4;
+
+export interface SequenceOptions {
+  /** Stop widening the search after this long (the best line is then finished greedily) */
+  timeBudgetMs?: number;
+  /** Number of partial sequences kept at each depth */
+  beamWidth?: number;
+  /** Number of candidate moves expanded from each partial sequence */
+  movesPerState?: number;
+  /** Sequence already recommended for this board, reused instead of searching again if it still plays out */
+  plan?: WordPath[];
+}
+
+interface SearchState {
+  grid: Grid;
+  moves: WordPath[];
+  score: number;
+  tilesCleared: number;
+}
+
+/**
+ * Serializes a grid so identical boards reached by different move orders can be merged
+ */
+function gridKey(grid: Grid): string {
+  return grid.map(row => row.map(cell => (cell.type === 'blank' ? '#' : cell.letter || '.') + cell.type[0]).join('')).join('/');
+}
+
+/**
+ * Ranks a candidate move by its score plus the tiles it clears
+ */
+function moveValue(move: WordPath): number {
+  return move.score + (move.path.length + move.breakdown.bonusTiles) * CLEARED_TILE_WEIGHT;
+}
+
+function stateValue(state: SearchState): number {
+  return state.score + state.tilesCleared * CLEARED_TILE_WEIGHT;
+}
+
+/**
+ * Plays a move from a search state
+ */
+function playMove(state: SearchState, move: WordPath): SearchState {
+  const { grid, clearedCells } = applyMove(state.grid, move.path);
+  return {
+    grid,
+    moves: [...state.moves, move],
+    score: state.score + move.score,
+    tilesCleared: state.tilesCleared + clearedCells.length,
+  };
+}
+
+/**
+ * Plays a previously recommended sequence on the board
+ * @returns The final state, or null if a move no longer spells its word on the board it meets
+ */
+function replayPlan(grid: Grid, plan: WordPath[]): SearchState | null {
+  let state: SearchState = { grid, moves: [], score: 0, tilesCleared: 0 };
+
+  for (const move of plan) {
+    const letters = move.path.map(({ row, col }) => state.grid[row]?.[col]?.letter ?? '').join('');
+    if (letters.toLowerCase() !== move.word) return null;
+    state = playMove(state, move);
+  }
+
+  return state;
+}
+
+/**
+ * Searches for a high-scoring sequence of moves with beam search
+ *
+ * Each depth expands the best few moves from every kept sequence, simulates
+ * them with applyMove (clearing + gravity), merges identical boards and keeps
+ * the beamWidth best sequences. When the time budget runs out the best
+ * sequence so far is finished greedily so the recommendation always plays out
+ * until no words remain.
+ */
+function findBestSequence(
+  grid: Grid,
+  dictionary: DictionaryIndex,
+  options: SequenceOptions,
+  stats: { candidatesChecked: number },
+  onProgress?: ProgressCallback
+): SearchState {
+  const {
+    timeBudgetMs = DEFAULT_TIME_BUDGET_MS,
+    beamWidth = DEFAULT_BEAM_WIDTH,
+    movesPerState = DEFAULT_MOVES_PER_STATE,
+  } = options;
+  const deadline = Date.now() + timeBudgetMs;
+
+  let beam: SearchState[] = [{ grid, moves: [], score: 0, tilesCleared: 0 }];
+  let best = beam[0];
+
+  while (beam.length > 0 && Date.now() < deadline) {
+    const children = new Map<string, SearchState>();
+
+    for (const state of beam) {
+      const moves = findWordsOnGrid(state.grid, dictionary, stats);
+
+      // No words left: this sequence is finished
+      if (moves.length === 0) {
+        if (state.score > best.score) best = state;
+        continue;
       }
+
+      const topMoves = [...moves].sort((a, b) => moveValue(b) - moveValue(a)).slice(0, movesPerState);
+      for (const move of topMoves) {
+        const child = playMove(state, move);
+        const key = gridKey(child.grid);
+        const existing = children.get(key);
+        if (!existing || child.score > existing.score) {
+          children.set(key, child);
+        }
+      }
+
+      if (Date.now() >= deadline) break;
+    }
+
+    beam = Array.from(children.values())
+      .sort((a, b) => stateValue(b) - stateValue(a))
+      .slice(0, beamWidth);
+
+    for (const state of beam) {
+      if (state.score > best.score) best = state;
     }
+
+    onProgress?.({ candidatesChecked: stats.candidatesChecked, wordsFound: 0 });
+  }
+
+  // Out of time: finish the most promising line greedily
+  let current = beam.length > 0 ? beam.reduce((a, b) => (stateValue(b) > stateValue(a) ? b : a)) : best;
+  for (;;) {
+    const moves = findWordsOnGrid(current.grid, dictionary, stats);
+    if (moves.length === 0) break;
+    const move = moves.reduce((a, b) => (moveValue(b) > moveValue(a) ? b : a));
+    current = playMove(current, move);
   }
-  return true;
+
+  return current.score > best.score ? current : best;
 }
 
 /**
  * Main solver function - finds optimal sequence of words to clear the board
+ * @param grid - The board to solve
+ * @param onProgress - Optional callback for progress updates
+ * @param options - Search settings for the sequence optimizer
  */
-export async function solveSpelltower(grid: Grid): Promise<SpelltowerSolution> {
+export async function solveSpelltower(
+  grid: Grid,
+  onProgress?: ProgressCallback,
+  options: SequenceOptions = {}
+): Promise<SpelltowerSolution> {
   console.log('Starting solve with grid:', grid);
 
-  const allWords = await findAllWords(grid);
+  const dictionary = await loadDictionary();
+  const stats = { candidatesChecked: 0 };
+  const words = findWordsOnGrid(grid, dictionary, stats, onProgress);
+  console.log(`Found ${words.length} total words`);
 
-  if (allWords.length === 0) {
+  if (words.length === 0) {
     return {
+      words: [],
       sequence: [],
       totalScore: 0,
-      clearedAll: false,
+      clearedAll: isGridEmpty(grid),
     };
   }
 
-  // For now, return all found words sorted by score
-  // The user can choose which words to play
+  // A plan that still plays out needs no new search
+  const planned = options.plan ? replayPlan(grid, options.plan) : null;
+  // Keep reporting the number of playable words while the optimizer runs
+  const best = planned ?? findBestSequence(grid, dictionary, options, stats, onProgress && (progress =>
+    onProgress({ candidatesChecked: progress.candidatesChecked, wordsFound: words.length })
+  ));
+
   return {
-    sequence: allWords,
-    totalScore: allWords.reduce((sum, word) => sum + word.score, 0),
-    clearedAll: false,
+    words,
+    sequence: best.moves,
+    totalScore: best.score,
+    clearedAll: isGridEmpty(best.grid),
   };
 }
@@ -1,107 +1,171 @@
-import { isValidWord } from '../wordnik';
+import { loadDictionary, DictionaryNode, NO_NODE } from '../dictionary';
+import { ProgressCallback } from './progress';
+import { solveExactCover } from '../utils/dancingLinks';
+import { getWordCommonScore } from '../utils/wordScore';
 
 export interface TypeshiftColumn {
   letters: string[];
 }
 
+/**
+ * A single letter tile: the slot-th letter (top to bottom) of a column
+ */
+export interface LetterSlot {
+  column: number;
+  slot: number;
+  letter: string;
+}
+
+/**
+ * A tile the core set does not use
+ * 'no-word' - no valid word uses this tile at all
+ * 'conflict' - words use it, but not alongside a full set covering the rest
+ */
+export interface UncoveredSlot extends LetterSlot {
+  reason: 'no-word' | 'conflict';
+}
+
+/**
+ * A core word together with the tile it takes from each column
+ * slots[i] is the position (top to bottom) of the letter used in column i
+ */
+export interface CoreWord {
+  word: string;
+  slots: number[];
+}
+
+export interface CoreSolution {
+  /** Best core set (the first entry of sets) */
+  words: CoreWord[];
+  /** Every distinct core set found, most common words first */
+  sets: CoreWord[][];
+  complete: boolean;
+  coveredSlots: number;
+  uncoveredSlots: UncoveredSlot[];
+}
+
 export interface TypeshiftSolution {
   allWords: string[];
-  coreWords: string[];
+  /** Number of prefixes checked while generating allWords */
+  candidatesChecked: number;
+  coreWords: CoreWord[];
+  /** Alternative full core sets, ranked by commonness (first is coreWords) */
+  coreSets: CoreWord[][];
+  coreComplete: boolean;
+  /** Number of words a full core needs (the tallest column's height) */
+  coreSize: number;
   usedLettersCount: number;
   totalLetters: number;
+  uncoveredSlots: UncoveredSlot[];
+}
+
+export interface WordSearchResult {
+  words: string[];
+  /** Number of prefixes looked up in the dictionary index */
+  candidatesChecked: number;
 }
 
 /**
- * Generates all possible words from Typeshift columns
+ * Finds all valid words that can be formed from Typeshift columns
+ * Walks the dictionary prefix index one column at a time, so a prefix that no
+ * word starts with is abandoned before any of its extensions are generated
  * @param columns - Array of columns, each containing letters
- * @returns Array of all valid words
+ * @param onProgress - Optional callback for progress updates
+ * @returns All valid words and how many candidate prefixes were checked
  */
-export async function findAllWords(columns: TypeshiftColumn[]): Promise<string[]> {
-  if (columns.length === 0) return [];
+export async function findAllWords(
+  columns: TypeshiftColumn[],
+  onProgress?: ProgressCallback
+): Promise<WordSearchResult> {
+  if (columns.length === 0) return { words: [], candidatesChecked: 0 };
+
+  const dictionary = await loadDictionary();
+  const validWords: string[] = [];
+  let candidatesChecked = 0;
 
-  const candidateWords: string[] = [];
+  // Duplicate letters in a column lead to the same words, so only walk each once
+  const columnLetters = columns.map(column => Array.from(new Set(column.letters)));
 
-  // Generate all possible combinations
-  function generateCombinations(columnIndex: number, currentWord: string) {
+  function walkColumns(columnIndex: number, node: DictionaryNode, currentWord: string) {
     if (columnIndex === columns.length) {
-      candidateWords.push(currentWord);
+      if (dictionary.isWord(node)) {
+        validWords.push(currentWord);
+      }
       return;
     }
 
-    const column = columns[columnIndex];
-    for (const letter of column.letters) {
-      generateCombinations(columnIndex + 1, currentWord + letter);
-    }
-  }
-
-  generateCombinations(0, '');
-
-  // Validate all candidate words with Wordnik
-  const validWords: string[] = [];
+    for (const letter of columnLetters[columnIndex]) {
+      candidatesChecked++;
+      const next = dictionary.child(node, letter);
+      if (next !== NO_NODE) {
+        walkColumns(columnIndex + 1, next, currentWord + letter);
+      }
 
-  // Process in batches to show progress
-  const BATCH_SIZE = 50;
-  for (let i = 0; i < candidateWords.length; i += BATCH_SIZE) {
-    const batch = candidateWords.slice(i, i + BATCH_SIZE);
-    const validationResults = await Promise.all(
-      batch.map(async (word) => {
-        const isValid = await isValidWord(word);
-        return { word, isValid };
-      })
-    );
-
-    validationResults.forEach(({ word, isValid }) => {
-      if (isValid) {
-        validWords.push(word);
+      // Report once per first-column letter
+      if (columnIndex === 0) {
+        onProgress?.({ candidatesChecked, wordsFound: validWords.length });
       }
-    });
+    }
   }
 
-  return validWords.sort();
+  walkColumns(0, dictionary.root, '');
+
+  return { words: validWords.sort(), candidatesChecked };
 }
 
+// Upper bound on how many distinct core sets to collect
+const MAX_CORE_SETS = 100;
+
 function getTotalLetterCount(columns: TypeshiftColumn[]): number {
   return columns.reduce((sum, col) => sum + col.letters.length, 0);
 }
 
 /**
- * Calculate a "commonness" score for a word (lower is better/more common)
- * Uses multiple heuristics to estimate word frequency
+ * Maps a word onto every combination of letter slots it could use
+ * A column can hold the same letter more than once (e.g. E, S, E), and each
+ * copy is a separate tile, so a word may have several slot assignments
+ * @returns One slot array per assignment (empty if a letter isn't in its column)
  */
-function getWordCommonScore(word: string): number {
-  // Shorter words are generally more common
-  const lengthPenalty = word.length * 10;
-
-  // Words with common letters are generally more common
-  const commonLetters = 'etaoinshrdlu';
-  let uncommonLetterCount = 0;
-  for (const char of word.toLowerCase()) {
-    if (!commonLetters.includes(char)) {
-      uncommonLetterCount++;
+function getWordSlotOptions(columns: TypeshiftColumn[], word: string): number[][] {
+  let assignments: number[][] = [[]];
+
+  for (let colIndex = 0; colIndex < word.length; colIndex++) {
+    const letter = word[colIndex].toLowerCase();
+    const matches: number[] = [];
+    columns[colIndex].letters.forEach((l, slot) => {
+      if (l.toLowerCase() === letter) matches.push(slot);
+    });
+
+    assignments = assignments.flatMap(slots => matches.map(slot => [...slots, slot]));
+    if (assignments.length === 0) {
+      return [];
     }
   }
 
-  // Penalize words with less common letters
-  const letterPenalty = uncommonLetterCount * 5;
-
-  // Penalize words with repeated letters (less common in general)
-  const uniqueLetters = new Set(word.toLowerCase()).size;
-  const repetitionPenalty = (word.length - uniqueLetters) * 3;
-
-  return lengthPenalty + letterPenalty + repetitionPenalty;
+  return assignments;
 }
 
 /**
- * Finds the minimal core solution set using backtracking
- * Ensures we use exactly maxHeight words (one per row)
+ * Finds the minimal core solution set as an exact cover problem
+ *
+ * Every core word takes exactly one letter slot from each column, so with
+ * maxHeight words the slots of the tallest columns must each be covered exactly
+ * once - those slots are the primary items for dancing links. Shorter columns
+ * are shared between words, so their slots only need to be covered at least
+ * once; that is checked as the search goes.
+ *
+ * The search enumerates every distinct core set (up to maxSets) and ranks them
+ * so the set made of the most common words comes first.
  * @param columns - Array of columns
  * @param allWords - All valid words that can be formed
- * @returns Core solution words
+ * @param maxSets - Maximum number of core sets to collect
+ * @returns Core sets, true coverage, and any slots that could not be covered
  */
 export function findCoreWords(
   columns: TypeshiftColumn[],
-  allWords: string[]
-): string[] {
+  allWords: string[],
+  maxSets: number = MAX_CORE_SETS
+): CoreSolution {
   const maxHeight = Math.max(...columns.map(col => col.letters.length));
   const totalLetters = getTotalLetterCount(columns);
 
@@ -110,101 +174,186 @@ export function findCoreWords(
     return getWordCommonScore(a) - getWordCommonScore(b);
   });
 
-  // Try to find a solution with exactly maxHeight words
-  let bestSolution: string[] = [];
-  let bestCoverage = 0;
-
-  // Backtracking function to find minimal word set
-  function backtrack(
-    wordIndex: number,
-    currentWords: string[],
-    usedLetters: Set<string>
-  ): boolean {
-    // If we have maxHeight words, check if we covered all letters
-    if (currentWords.length === maxHeight) {
-      if (usedLetters.size === totalLetters) {
-        // Found perfect solution!
-        bestSolution = [...currentWords];
-        return true;
-      }
-      // Track best partial solution
-      if (usedLetters.size > bestCoverage) {
-        bestCoverage = usedLetters.size;
-        bestSolution = [...currentWords];
-      }
-      return false;
+  const candidates: (CoreWord & { wordIndex: number })[] = [];
+  sortedWords.forEach((word, wordIndex) => {
+    for (const slots of getWordSlotOptions(columns, word)) {
+      candidates.push({ word, slots, wordIndex });
     }
+  });
 
-    // If we've exhausted all words, return
-    if (wordIndex >= sortedWords.length) {
-      return false;
+  // Primary items: slots of the tallest columns, numbered column by column
+  const tallColumns = columns
+    .map((column, index) => ({ column, index }))
+    .filter(({ column }) => column.letters.length === maxHeight);
+  const primaryItem = new Map<string, number>();
+  tallColumns.forEach(({ index }, tallIndex) => {
+    for (let slot = 0; slot < maxHeight; slot++) {
+      primaryItem.set(`${index}-${slot}`, tallIndex * maxHeight + slot);
     }
+  });
 
-    // Pruning: if we can't possibly reach maxHeight words, return
-    const remainingWords = maxHeight - currentWords.length;
-    const remainingCandidates = sortedWords.length - wordIndex;
-    if (remainingCandidates < remainingWords) {
-      return false;
+  // Secondary items (one per word) stop the same word being used twice
+  // through two different slot assignments
+  const primaryItems = tallColumns.length * maxHeight;
+  const options = candidates.map(({ slots, wordIndex }) => [
+    ...slots
+      .map((slot, colIndex) => primaryItem.get(`${colIndex}-${slot}`))
+      .filter((item): item is number => item !== undefined),
+    primaryItems + wordIndex,
+  ]);
+
+  const shortColumns = columns
+    .map((column, index) => ({ height: column.letters.length, index }))
+    .filter(({ height }) => height < maxHeight);
+
+  // Prune when a short column has more uncovered slots than words left to place
+  const canExtend = (chosen: number[]): boolean => {
+    const remaining = maxHeight - chosen.length;
+    for (const { height, index } of shortColumns) {
+      const covered = new Set(chosen.map(option => candidates[option].slots[index]));
+      if (height - covered.size > remaining) {
+        return false;
+      }
     }
+    return true;
+  };
 
-    // Try including the current word
-    const word = sortedWords[wordIndex];
-    const newLetters = new Set<string>();
-    let validWord = true;
+  // Different slot assignments can spell the same words, so dedupe by word set
+  const sets = new Map<string, CoreWord[]>();
+  solveExactCover(
+    { primaryItems, secondaryItems: sortedWords.length, options },
+    {
+      canExtend,
+      onSolution: (chosen) => {
+        const words = chosen.map(option => ({
+          word: candidates[option].word,
+          slots: candidates[option].slots,
+        }));
+        const key = words.map(({ word }) => word).sort().join(' ');
+        if (!sets.has(key)) {
+          sets.set(key, words);
+        }
+        return sets.size >= maxSets;
+      },
+    }
+  );
+
+  if (sets.size > 0) {
+    const ranked = rankCoreSets(Array.from(sets.values()));
+    return {
+      words: ranked[0],
+      sets: ranked,
+      complete: true,
+      coveredSlots: totalLetters,
+      uncoveredSlots: [],
+    };
+  }
 
-    for (let colIndex = 0; colIndex < word.length; colIndex++) {
-      const letter = word[colIndex].toLowerCase();
-      const column = columns[colIndex];
-      const letterIdx = column.letters.findIndex(l => l.toLowerCase() === letter);
+  return explainIncompleteCore(columns, candidates, maxHeight);
+}
 
-      if (letterIdx === -1) {
-        validWord = false;
-        break;
-      }
+/**
+ * Orders core sets by total word commonness (most common first)
+ * Each set's own words are ordered the same way
+ */
+function rankCoreSets(sets: CoreWord[][]): CoreWord[][] {
+  const setScore = (words: CoreWord[]) =>
+    words.reduce((sum, { word }) => sum + getWordCommonScore(word), 0);
+  const setKey = (words: CoreWord[]) => words.map(({ word }) => word).join(' ');
+
+  return sets
+    .map(words => [...words].sort((a, b) => getWordCommonScore(a.word) - getWordCommonScore(b.word)))
+    .sort((a, b) => setScore(a) - setScore(b) || setKey(a).localeCompare(setKey(b)));
+}
 
-      const posKey = `${colIndex}-${letterIdx}`;
-      if (!usedLetters.has(posKey)) {
-        newLetters.add(posKey);
-      }
-    }
+/**
+ * Builds the best partial core when no full-coverage set exists
+ * Greedily picks maxHeight words that each add the most new slots, then
+ * reports every slot left uncovered and why
+ */
+function explainIncompleteCore(
+  columns: TypeshiftColumn[],
+  candidates: CoreWord[],
+  maxHeight: number
+): CoreSolution {
+  const covered = new Set<string>();
+  const reachable = new Set<string>();
+  const words: CoreWord[] = [];
+
+  for (const { slots } of candidates) {
+    slots.forEach((slot, colIndex) => reachable.add(`${colIndex}-${slot}`));
+  }
 
-    // Only include this word if it adds new letter coverage
-    if (validWord && newLetters.size > 0) {
-      currentWords.push(word);
-      newLetters.forEach(letter => usedLetters.add(letter));
+  const remaining = [...candidates];
+  while (words.length < maxHeight && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestGain = -1;
 
-      if (backtrack(wordIndex + 1, currentWords, usedLetters)) {
-        return true; // Found perfect solution
+    remaining.forEach(({ word, slots }, index) => {
+      if (words.some(chosen => chosen.word === word)) return;
+
+      const gain = slots.filter((slot, colIndex) => !covered.has(`${colIndex}-${slot}`)).length;
+      // Candidates are already in commonness order, so ties keep the more common word
+      if (gain > bestGain) {
+        bestGain = gain;
+        bestIndex = index;
       }
+    });
 
-      // Backtrack
-      currentWords.pop();
-      newLetters.forEach(letter => usedLetters.delete(letter));
-    }
+    if (bestGain <= 0) break;
 
-    // Try skipping the current word
-    return backtrack(wordIndex + 1, currentWords, usedLetters);
+    const [best] = remaining.splice(bestIndex, 1);
+    words.push({ word: best.word, slots: best.slots });
+    best.slots.forEach((slot, colIndex) => covered.add(`${colIndex}-${slot}`));
   }
 
-  backtrack(0, [], new Set());
+  const uncoveredSlots: UncoveredSlot[] = [];
+  columns.forEach((column, colIndex) => {
+    column.letters.forEach((letter, slot) => {
+      const key = `${colIndex}-${slot}`;
+      if (!covered.has(key)) {
+        uncoveredSlots.push({
+          column: colIndex,
+          slot,
+          letter,
+          reason: reachable.has(key) ? 'conflict' : 'no-word',
+        });
+      }
+    });
+  });
 
-  return bestSolution;
+  return {
+    words,
+    sets: [],
+    complete: false,
+    coveredSlots: covered.size,
+    uncoveredSlots,
+  };
 }
 
 /**
  * Solves a Typeshift puzzle
  * @param columns - Array of columns
+ * @param onProgress - Optional callback for progress updates
  * @returns Solution containing all words and core words
  */
-export async function solveTypeshift(columns: TypeshiftColumn[]): Promise<TypeshiftSolution> {
-  const allWords = await findAllWords(columns);
-  const coreWords = findCoreWords(columns, allWords);
+export async function solveTypeshift(
+  columns: TypeshiftColumn[],
+  onProgress?: ProgressCallback
+): Promise<TypeshiftSolution> {
+  const { words: allWords, candidatesChecked } = await findAllWords(columns, onProgress);
+  const core = findCoreWords(columns, allWords);
   const totalLetters = getTotalLetterCount(columns);
 
   return {
     allWords,
-    coreWords,
-    usedLettersCount: coreWords.length * columns.length,
+    candidatesChecked,
+    coreWords: core.words,
+    coreSets: core.sets,
+    coreComplete: core.complete,
+    coreSize: Math.max(...columns.map(col => col.letters.length)),
+    usedLettersCount: core.coveredSlots,
     totalLetters,
+    uncoveredSlots: core.uncoveredSlots,
   };
 }
@@ -1,187 +1,252 @@
-import { isValidWord } from '../wordnik';
-
-export interface WordbindSolution {
-  words: string[];
-  totalWords: number;
-}
+import { loadDictionary, findWordForms, DictionaryNode, WordForm } from '../dictionary';
+import { ProgressCallback } from './progress';
 
 /**
- * Normalizes the source text by removing spaces and converting to uppercase
+ * A word and how to enter it: which source letters it takes
+ * Indices are positions in the source text as typed, spaces included
  */
-function normalizeSource(text: string): string {
-  return text.replace(/\s+/g, '').toUpperCase();
+export interface WordbindWord {
+  word: string;
+  /** Source letters used, in order */
+  sourceIndices: number[];
+  /** Source letters that are doubled in the word (repeated once per extra copy) */
+  doubledIndices: number[];
 }
 
 /**
- * Checks if a word can be formed from the source text following the ordered-letter rule
- * Rules:
- * 1. Letters must appear in left-to-right order from source
- * 2. Any letter from the source can be doubled (used twice in a row) once
- * @param word - The word to check
- * @param source - The source text
- * @param allowDouble - Whether to allow using a letter twice as a double letter
+ * A formable word left out because it is a source word or one of its forms
  */
-function canFormWord(word: string, source: string, allowDouble: boolean = true): boolean {
-  const wordUpper = word.toUpperCase();
-  let sourceIndex = 0;
-
-  for (let i = 0; i < wordUpper.length; i++) {
-    const char = wordUpper[i];
-
-    // Check if this is a double letter (same as previous character)
-    if (i > 0 && char === wordUpper[i - 1] && allowDouble) {
-      // This is a doubled letter - we don't need to find it again in source
-      // The previous iteration already found it, and we're allowed to use it twice
-      continue;
-    }
-
-    // Find this letter in the source starting from current position
-    let found = false;
-    for (let j = sourceIndex; j < source.length; j++) {
-      if (source[j] === char) {
-        sourceIndex = j + 1;
-        found = true;
-        break;
-      }
-    }
-
-    if (!found) {
-      return false;
-    }
-  }
+export interface WordbindExclusion extends WordbindWord {
+  /** Why the word was left out, e.g. "plural of CARD" */
+  reason: string;
+}
 
-  return true;
+export interface WordbindSolution {
+  words: WordbindWord[];
+  totalWords: number;
+  /** Words the rules excluded, so the page can show what was hidden */
+  excludedWords: WordbindExclusion[];
 }
 
 /**
- * Generates all possible subsequences from the source text
- * @param source - The source text
- * @param minLength - Minimum word length
- * @param maxLength - Maximum word length
+ * Rules the solver applies when forming words
  */
-function generateSubsequences(source: string, minLength: number = 3, maxLength: number = 15): Set<string> {
-  const subsequences = new Set<string>();
+export interface WordbindRules {
+  /** Doubled letters allowed in one word */
+  doublesPerWord: number;
+  /** Extra copies allowed of a single source letter (1 = double, 2 = triple) */
+  doublesPerSourceLetter: number;
+  minLength: number;
+  /** Longest word to report, or null for no limit */
+  maxLength: number | null;
+  /** Leave out the source words themselves */
+  excludeSourceWords: boolean;
+  /** Leave out plurals of the source words */
+  excludeSourcePlurals: boolean;
+  /** Leave out the -ed, -ing, -er and -ly forms of the source words */
+  excludeSourceDerivatives: boolean;
+}
 
-  function backtrack(index: number, current: string) {
-    if (current.length >= minLength && current.length <= maxLength) {
-      subsequences.add(current);
-    }
+// A letter may be doubled once, and words need at least 5 letters
+// Source words and their plurals are left out; derived forms such as SAMPLER stay in
+export const DEFAULT_WORDBIND_RULES: WordbindRules = {
+  doublesPerWord: 1,
+  doublesPerSourceLetter: 1,
+  minLength: 5,
+  maxLength: null,
+  excludeSourceWords: true,
+  excludeSourcePlurals: true,
+  excludeSourceDerivatives: false,
+};
+
+const FORM_LABELS: Record<WordForm, string> = {
+  plural: 'plural',
+  past: '-ed form',
+  progressive: '-ing form',
+  agent: '-er form',
+  adverb: '-ly form',
+};
+
+const DERIVED_FORMS: WordForm[] = ['past', 'progressive', 'agent', 'adverb'];
+
+// How many dictionary edges to try between progress reports
+const PROGRESS_INTERVAL = 5000;
+
+const ALPHABET_SIZE = 26;
+const CHAR_CODE_A = 'A'.charCodeAt(0);
 
-    if (current.length >= maxLength || index >= source.length) {
-      return;
-    }
+/**
+ * Normalizes the source text by removing spaces and converting to uppercase
+ */
+function normalizeSource(text: string): string {
+  return text.replace(/\s+/g, '').toUpperCase();
+}
 
-    // Include current character
-    backtrack(index + 1, current + source[index]);
+/**
+ * Builds a next-occurrence table for the source
+ * Entry [i * 26 + letter] is the first position at or after i holding that letter,
+ * or -1. Matching a word against the source then costs one lookup per letter
+ * @param source - Normalized source letters
+ */
+function buildNextOccurrence(source: string): Int32Array {
+  const next = new Int32Array((source.length + 1) * ALPHABET_SIZE).fill(-1);
 
-    // Skip current character
-    backtrack(index + 1, current);
+  for (let i = source.length - 1; i >= 0; i--) {
+    next.copyWithin(i * ALPHABET_SIZE, (i + 1) * ALPHABET_SIZE, (i + 2) * ALPHABET_SIZE);
+    next[i * ALPHABET_SIZE + source.charCodeAt(i) - CHAR_CODE_A] = i;
   }
 
-  backtrack(0, '');
-
-  return subsequences;
+  return next;
 }
 
 /**
- * Generates candidates including double-letter variants
- * Uses a recursive approach to build all possible words with optional letter doubling
+ * Checks a rule set for values the solver can't work with
+ * @returns An error message, or null if the rules are usable
  */
-function generateCandidatesWithDoubles(source: string, minLength: number = 3): Set<string> {
-  const candidates = new Set<string>();
-  const normalized = normalizeSource(source);
-  const maxLength = Math.min(20, normalized.length + 5); // Allow for doubled letters
-
-  function buildWords(index: number, current: string, lastChar: string) {
-    // Add current word if it meets length requirements
-    if (current.length >= minLength && current.length <= maxLength) {
-      candidates.add(current);
-    }
-
-    // Stop if we've reached max length or end of source
-    if (current.length >= maxLength || index >= normalized.length) {
-      return;
-    }
-
-    // Option 1: Skip current character
-    buildWords(index + 1, current, lastChar);
-
-    // Option 2: Take current character
-    const char = normalized[index];
-    buildWords(index + 1, current + char, char);
-
-    // Option 3: If we just added a character, we can double it (use same letter again)
-    if (lastChar && current.length > 0 && current.length < maxLength) {
-      buildWords(index, current + lastChar, ''); // Use lastChar again, but don't allow triple
-    }
+export function validateWordbindRules(rules: WordbindRules): string | null {
+  const counts = [rules.doublesPerWord, rules.doublesPerSourceLetter, rules.minLength];
+  if (!counts.every(n => Number.isInteger(n) && n >= 0)) {
+    return 'Doubles and minimum length must be whole numbers of 0 or more.';
   }
-
-  buildWords(0, '', '');
-
-  return candidates;
+  if (rules.maxLength !== null && (!Number.isInteger(rules.maxLength) || rules.maxLength < rules.minLength)) {
+    return 'Maximum length must be a whole number no smaller than the minimum length.';
+  }
+  return null;
 }
 
 /**
  * Solves a Wordbind puzzle
+ * Walks the dictionary prefix index while matching each prefix against the source.
+ * Rules:
+ * 1. Letters must appear in left-to-right order from source
+ * 2. A letter taken from the source may be repeated right after itself (a double letter),
+ *    as many times as the rules allow per source letter and per word
+ * Each letter is matched at its earliest remaining position in the source, which
+ * never rules out a later match, so every formable dictionary word is found
  * @param sourceText - The source words (2-3 words)
+ * @param onProgress - Optional callback for progress updates
+ * @param rules - Doubling, length and exclusion rules
  * @returns Solution with all valid words found
  */
-export async function solveWordbind(sourceText: string): Promise<WordbindSolution> {
-  const normalized = normalizeSource(sourceText);
+export async function solveWordbind(
+  sourceText: string,
+  onProgress?: ProgressCallback,
+  rules: WordbindRules = DEFAULT_WORDBIND_RULES
+): Promise<WordbindSolution> {
+  const rulesError = validateWordbindRules(rules);
+  if (rulesError) {
+    throw new Error(rulesError);
+  }
 
-  // Split into source words to exclude them
+  const normalized = normalizeSource(sourceText).replace(/[^A-Z]/g, '');
+  // Where each normalized letter sits in the source text
+  const textPositions = Array.from(sourceText.toUpperCase())
+    .map((char, index) => (/[A-Z]/.test(char) ? index : -1))
+    .filter(index => index !== -1);
   const sourceWords = sourceText
     .trim()
     .toUpperCase()
     .split(/\s+/)
     .filter(w => w.length > 0);
 
-  // Generate all candidate words (minimum 5 letters)
-  const candidates = generateCandidatesWithDoubles(normalized, 5);
-
-  // Filter out exact source words
-  const filteredCandidates = Array.from(candidates).filter(
-    word => !sourceWords.includes(word)
-  );
-
-  console.log(`Generated ${filteredCandidates.length} candidates`);
+  const dictionary = await loadDictionary();
+
+  // Excluded words, with the reason each one is left out
+  const forms: WordForm[] = [
+    ...(rules.excludeSourcePlurals ? ['plural' as const] : []),
+    ...(rules.excludeSourceDerivatives ? DERIVED_FORMS : []),
+  ];
+  const excluded = new Map<string, string>();
+  for (const word of sourceWords) {
+    if (rules.excludeSourceWords) excluded.set(word, 'source word');
+    for (const derived of findWordForms(dictionary, word, forms)) {
+      const upper = derived.word.toUpperCase();
+      if (!excluded.has(upper)) excluded.set(upper, `${FORM_LABELS[derived.form]} of ${word}`);
+    }
+  }
+  const maxLength = rules.maxLength ?? Infinity;
+
+  const nextOccurrence = buildNextOccurrence(normalized);
+  const found = new Map<string, WordbindWord>();
+  const hidden = new Map<string, WordbindExclusion>();
+  let candidatesChecked = 0;
+  // Source positions behind the current prefix
+  const used: number[] = [];
+  const doubled: number[] = [];
+
+  /**
+   * @param node - Dictionary node for the current prefix
+   * @param sourceIndex - First source position still available
+   * @param word - Letters placed so far
+   * @param doubles - Doubled letters used in the word so far
+   * @param repeats - Extra copies made of the last source letter, or -1 before the first letter
+   */
+  function walk(node: DictionaryNode, sourceIndex: number, word: string, doubles: number, repeats: number) {
+    // A word can often be formed more than one way; keep the way with the fewest doubles
+    const previous = found.get(word) ?? hidden.get(word);
+    const fewerDoubles = !previous || doubled.length < previous.doubledIndices.length;
+    if (word.length >= rules.minLength && dictionary.isWord(node) && fewerDoubles) {
+      const result: WordbindWord = {
+        word,
+        sourceIndices: used.map(position => textPositions[position]),
+        doubledIndices: doubled.map(position => textPositions[position]),
+      };
+      const reason = excluded.get(word);
+      if (reason) {
+        hidden.set(word, { ...result, reason });
+      } else {
+        found.set(word, result);
+      }
+    }
+    if (word.length >= maxLength) return;
 
-  // Validate words with Wordnik in batches
-  const validWords: string[] = [];
-  const BATCH_SIZE = 50;
+    const canDouble = repeats !== -1
+      && repeats < rules.doublesPerSourceLetter
+      && doubles < rules.doublesPerWord;
 
-  for (let i = 0; i < filteredCandidates.length; i += BATCH_SIZE) {
-    const batch = filteredCandidates.slice(i, i + BATCH_SIZE);
+    for (const [letter, child] of dictionary.children(node)) {
+      const upper = letter.toUpperCase();
+      const code = upper.charCodeAt(0) - CHAR_CODE_A;
+      if (code < 0 || code >= ALPHABET_SIZE) continue;
 
-    const results = await Promise.all(
-      batch.map(async (word) => {
-        // Double-check that the word can be formed
-        if (!canFormWord(word, normalized, true)) {
-          return { word, isValid: false };
-        }
+      candidatesChecked++;
+      if (candidatesChecked % PROGRESS_INTERVAL === 0) {
+        onProgress?.({ candidatesChecked, wordsFound: found.size });
+      }
 
-        const isValid = await isValidWord(word);
-        return { word, isValid };
-      })
-    );
+      // Take the letter from the source first, so a repeated letter the source
+      // already holds isn't spent as a double
+      const position = nextOccurrence[sourceIndex * ALPHABET_SIZE + code];
+      if (position !== -1) {
+        used.push(position);
+        walk(child, position + 1, word + upper, doubles, 0);
+        used.pop();
+      }
 
-    results.forEach(({ word, isValid }) => {
-      if (isValid) {
-        validWords.push(word);
+      // Reuse the previous letter as a double without consuming the source
+      if (canDouble && upper === word[word.length - 1]) {
+        doubled.push(used[used.length - 1]);
+        walk(child, sourceIndex, word + upper, doubles + 1, repeats + 1);
+        doubled.pop();
       }
-    });
+    }
   }
 
+  walk(dictionary.root, 0, '', 0, -1);
+  onProgress?.({ candidatesChecked, wordsFound: found.size });
+
   // Sort by length (descending) then alphabetically
-  validWords.sort((a, b) => {
-    if (a.length !== b.length) {
-      return b.length - a.length;
+  const byLength = (a: WordbindWord, b: WordbindWord) => {
+    if (a.word.length !== b.word.length) {
+      return b.word.length - a.word.length;
     }
-    return a.localeCompare(b);
-  });
+    return a.word.localeCompare(b.word);
+  };
+  const validWords = Array.from(found.values()).sort(byLength);
 
   return {
     words: validWords,
     totalWords: validWords.length,
+    excludedWords: Array.from(hidden.values()).sort(byLength),
   };
 }
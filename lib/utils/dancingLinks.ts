@@ -0,0 +1,158 @@
+/**
+ * Exact cover solver using Knuth's dancing links (Algorithm X)
+ * Items 0..primaryItems-1 must be covered exactly once; any secondary items
+ * after them may be covered at most once
+ */
+
+export interface ExactCoverProblem {
+  /** Number of items that every solution must cover exactly once */
+  primaryItems: number;
+  /** Number of extra items that may be covered at most once */
+  secondaryItems?: number;
+  /** Each option lists the item indices it covers */
+  options: number[][];
+}
+
+export interface ExactCoverSearch {
+  /**
+   * Called with the option indices of each complete cover
+   * Return true to stop the search
+   */
+  onSolution: (options: number[]) => boolean | void;
+  /**
+   * Optional pruning hook, called after each option is chosen
+   * Return false to abandon the current branch
+   */
+  canExtend?: (options: number[]) => boolean;
+}
+
+/**
+ * Runs Algorithm X over the problem
+ * Options are tried in the order given, so callers can list preferred options first
+ * @param problem - Items and options
+ * @param search - Solution callback and optional pruning hook
+ * @returns Number of solutions reported
+ */
+export function solveExactCover(problem: ExactCoverProblem, search: ExactCoverSearch): number {
+  const { primaryItems, secondaryItems = 0, options } = problem;
+  const itemCount = primaryItems + secondaryItems;
+
+  // Node 0 is the root header; nodes 1..itemCount are item headers
+  const left: number[] = [];
+  const right: number[] = [];
+  const up: number[] = [];
+  const down: number[] = [];
+  const itemOf: number[] = [];
+  const optionOf: number[] = [];
+  const size: number[] = Array(itemCount + 1).fill(0);
+
+  for (let i = 0; i <= itemCount; i++) {
+    left.push(i - 1);
+    right.push(i + 1);
+    up.push(i);
+    down.push(i);
+    itemOf.push(i);
+    optionOf.push(-1);
+  }
+
+  // Only primary items are linked into the header list
+  left[0] = primaryItems;
+  right[primaryItems] = 0;
+  for (let i = primaryItems + 1; i <= itemCount; i++) {
+    left[i] = i;
+    right[i] = i;
+  }
+
+  options.forEach((items, optionIndex) => {
+    let first = -1;
+    for (const item of items) {
+      const header = item + 1;
+      const node = itemOf.length;
+
+      itemOf.push(header);
+      optionOf.push(optionIndex);
+      up.push(up[header]);
+      down.push(header);
+      down[up[header]] = node;
+      up[header] = node;
+      size[header]++;
+
+      if (first === -1) {
+        first = node;
+        left.push(node);
+        right.push(node);
+      } else {
+        left.push(left[first]);
+        right.push(first);
+        right[left[first]] = node;
+        left[first] = node;
+      }
+    }
+  });
+
+  function cover(header: number): void {
+    right[left[header]] = right[header];
+    left[right[header]] = left[header];
+    for (let row = down[header]; row !== header; row = down[row]) {
+      for (let node = right[row]; node !== row; node = right[node]) {
+        down[up[node]] = down[node];
+        up[down[node]] = up[node];
+        size[itemOf[node]]--;
+      }
+    }
+  }
+
+  function uncover(header: number): void {
+    for (let row = up[header]; row !== header; row = up[row]) {
+      for (let node = left[row]; node !== row; node = left[node]) {
+        size[itemOf[node]]++;
+        down[up[node]] = node;
+        up[down[node]] = node;
+      }
+    }
+    right[left[header]] = header;
+    left[right[header]] = header;
+  }
+
+  const chosen: number[] = [];
+  let solutions = 0;
+  let stopped = false;
+
+  function recurse(): void {
+    if (right[0] === 0) {
+      solutions++;
+      if (search.onSolution([...chosen])) {
+        stopped = true;
+      }
+      return;
+    }
+
+    // Choose the item with the fewest remaining options (MRV)
+    let best = right[0];
+    for (let header = right[best]; header !== 0; header = right[header]) {
+      if (size[header] < size[best]) best = header;
+    }
+    if (size[best] === 0) return;
+
+    cover(best);
+    for (let row = down[best]; row !== best && !stopped; row = down[row]) {
+      chosen.push(optionOf[row]);
+      for (let node = right[row]; node !== row; node = right[node]) {
+        cover(itemOf[node]);
+      }
+
+      if (!search.canExtend || search.canExtend(chosen)) {
+        recurse();
+      }
+
+      for (let node = left[row]; node !== row; node = left[node]) {
+        uncover(itemOf[node]);
+      }
+      chosen.pop();
+    }
+    uncover(best);
+  }
+
+  recurse();
+  return solutions;
+}
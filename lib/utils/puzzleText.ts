@@ -0,0 +1,194 @@
+/**
+ * Plain-text puzzle formats
+ * Lets each page accept a pasted puzzle and export the current one in the same format
+ */
+
+import type { SudokuGrid } from '../solvers/memoku';
+import type { TypeshiftColumn } from '../solvers/typeshift';
+import type { Cell, CellType, Grid } from '../solvers/spelltower';
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const MEMOKU_SIZES = [4, 6, 9];
+
+const SPELLTOWER_ROWS = 13;
+const SPELLTOWER_COLS = 9;
+
+/**
+ * Parses a Memoku grid written as one character per cell, row by row
+ * Digits are givens; `.` or `0` is a blank. Whitespace and line breaks are ignored,
+ * so both an 81-character line and a 9-line block work
+ * @param text - Pasted puzzle text
+ * @returns The grid, or an error naming the first problem
+ */
+export function parseMemokuText(text: string): ParseResult<SudokuGrid> {
+  const chars = text.replace(/\s+/g, '');
+  if (chars.length === 0) {
+    return { ok: false, error: 'Paste a grid first.' };
+  }
+
+  const size = MEMOKU_SIZES.find(s => s * s === chars.length);
+  if (!size) {
+    return {
+      ok: false,
+      error: `Expected 16, 36 or 81 cells (one character each, "." for blanks) but found ${chars.length}.`,
+    };
+  }
+
+  const grid: SudokuGrid = [];
+  for (let row = 0; row < size; row++) {
+    const cells: (number | null)[] = [];
+    for (let col = 0; col < size; col++) {
+      const char = chars[row * size + col];
+      const digit = parseInt(char, 10);
+
+      if (char === '.' || char === '0') {
+        cells.push(null);
+      } else if (digit >= 1 && digit <= size) {
+        cells.push(digit);
+      } else {
+        return {
+          ok: false,
+          error: `Row ${row + 1}, column ${col + 1}: "${char}" is not a digit from 1 to ${size} or "." for a blank.`,
+        };
+      }
+    }
+    grid.push(cells);
+  }
+
+  return { ok: true, value: grid };
+}
+
+/**
+ * Writes a Memoku grid as a single line, "." for blanks
+ */
+export function formatMemokuText(grid: SudokuGrid): string {
+  return grid.map(row => row.map(cell => (cell === null ? '.' : String(cell))).join('')).join('');
+}
+
+/**
+ * Parses Typeshift columns written as space-separated words, each one a column
+ * read top to bottom (e.g. "MWSB LAIT SGOE")
+ */
+export function parseTypeshiftText(text: string): ParseResult<TypeshiftColumn[]> {
+  const tokens = text.trim().toUpperCase().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) {
+    return { ok: false, error: 'Paste the columns first, e.g. "MWSB LAIT SGOE".' };
+  }
+
+  const invalid = tokens.findIndex(token => !/^[A-Z]+$/.test(token));
+  if (invalid !== -1) {
+    return {
+      ok: false,
+      error: `Column ${invalid + 1} ("${tokens[invalid]}") should only contain letters.`,
+    };
+  }
+
+  return { ok: true, value: tokens.map(token => ({ letters: token.split('') })) };
+}
+
+/**
+ * Writes Typeshift columns as space-separated words
+ */
+export function formatTypeshiftText(columns: TypeshiftColumn[]): string {
+  return columns
+    .map(column => column.letters.filter(Boolean).join(''))
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Parses a Spelltower grid: 13 lines of 9 tiles, top row first
+ * A tile is a letter, optionally followed by "!" (red) or "*" (starred);
+ * "#" is a blank tile and "." an empty space. Spaces between tiles are ignored
+ */
+export function parseSpelltowerText(text: string): ParseResult<Grid> {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\s+/g, ''));
+  // Ignore blank lines around the grid, but not inside it
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  while (lines.length > 0 && lines[0] === '') lines.shift();
+
+  if (lines.length !== SPELLTOWER_ROWS) {
+    return {
+      ok: false,
+      error: `Expected ${SPELLTOWER_ROWS} lines (one per row) but found ${lines.length}.`,
+    };
+  }
+
+  const grid: Grid = [];
+  for (let row = 0; row < SPELLTOWER_ROWS; row++) {
+    const cells: Cell[] = [];
+    const line = lines[row].toUpperCase();
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '.') {
+        cells.push({ letter: '', type: 'letter' });
+      } else if (char === '#') {
+        cells.push({ letter: '', type: 'blank' });
+      } else if (/[A-Z]/.test(char)) {
+        let type: CellType = 'letter';
+        if (line[i + 1] === '!') {
+          type = 'red';
+          i++;
+        } else if (line[i + 1] === '*') {
+          type = 'starred';
+          i++;
+        }
+        cells.push({ letter: char, type });
+      } else {
+        return {
+          ok: false,
+          error: `Row ${row + 1}: unexpected "${char}". Use letters (with "!" for red or "*" for starred), "#" for blank tiles and "." for empty spaces.`,
+        };
+      }
+    }
+
+    if (cells.length !== SPELLTOWER_COLS) {
+      return {
+        ok: false,
+        error: `Row ${row + 1} has ${cells.length} tiles; every row needs ${SPELLTOWER_COLS}.`,
+      };
+    }
+    grid.push(cells);
+  }
+
+  return { ok: true, value: grid };
+}
+
+/**
+ * Writes a Spelltower grid as 13 lines, using the same markers the parser accepts
+ */
+export function formatSpelltowerText(grid: Grid): string {
+  return grid.map(row => row.map(cell => {
+    if (cell.type === 'blank') return '#';
+    if (!cell.letter) return '.';
+    if (cell.type === 'red') return `${cell.letter}!`;
+    if (cell.type === 'starred') return `${cell.letter}*`;
+    return cell.letter;
+  }).join('')).join('\n');
+}
+
+/**
+ * Parses a Wordbind source phrase of 2-3 words
+ */
+export function parseWordbindText(text: string): ParseResult<string> {
+  const words = text.trim().toUpperCase().split(/\s+/).filter(Boolean);
+  if (words.length < 2 || words.length > 3) {
+    return { ok: false, error: `Expected 2-3 source words but found ${words.length}.` };
+  }
+
+  const invalid = words.find(word => !/^[A-Z]+$/.test(word));
+  if (invalid) {
+    return { ok: false, error: `"${invalid}" should only contain letters.` };
+  }
+
+  return { ok: true, value: words.join(' ') };
+}
+
+/**
+ * Writes a list of solution words, one per line
+ */
+export function formatWordList(words: string[]): string {
+  return words.join('\n');
+}
@@ -0,0 +1,42 @@
+/**
+ * Seeded pseudo-random numbers
+ * Used by generators so the same seed always produces the same puzzle
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Creates a mulberry32 generator
+ * @param seed - Any 32-bit integer
+ * @returns A function returning floats in [0, 1)
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffles a copy of the array (Fisher-Yates)
+ */
+export function shuffle<T>(items: T[], random: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Picks a fresh seed for when the user doesn't supply one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
+}
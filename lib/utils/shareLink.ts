@@ -0,0 +1,324 @@
+/**
+ * Shareable links
+ * Each solver encodes its full input into the URL hash so a link reopens the same puzzle.
+ * Values only use characters that URLSearchParams leaves unescaped, to keep links short
+ */
+
+import {
+  createStandardLayout,
+  validateConstraints,
+  validateLayout,
+  CellRef,
+  MemokuConstraint,
+  MemokuLayout,
+  StarCell,
+  SudokuGrid,
+} from '../solvers/memoku';
+import type { TypeshiftColumn } from '../solvers/typeshift';
+import { DEFAULT_WORDBIND_RULES, validateWordbindRules, WordbindRules } from '../solvers/wordbind';
+import type { Cell, Grid } from '../solvers/spelltower';
+import {
+  ParseResult,
+  formatMemokuText,
+  parseMemokuText,
+  parseTypeshiftText,
+  parseWordbindText,
+} from './puzzleText';
+
+export interface MemokuShareState {
+  grid: SudokuGrid;
+  stars: StarCell[];
+  layout: MemokuLayout;
+  constraints: MemokuConstraint[];
+}
+
+export interface WordbindShareState {
+  sourceText: string;
+  rules: WordbindRules;
+}
+
+const SPELLTOWER_ROWS = 13;
+const SPELLTOWER_COLS = 9;
+
+// Wordbind exclusion rules by letter, listed in the x parameter when switched on
+const EXCLUSION_CODES = {
+  excludeSourceWords: 's',
+  excludeSourcePlurals: 'p',
+  excludeSourceDerivatives: 'd',
+} as const;
+
+// Star colors by the same letters as the keyboard shortcuts
+const STAR_CODES: Record<StarCell['color'], string> = { gold: 'y', purple: 'p', green: 'g' };
+
+/**
+ * Reads the share parameters from a URL hash
+ * @returns null when the page was opened without a shared puzzle
+ */
+export function parseShareHash(hash: string): URLSearchParams | null {
+  const text = hash.replace(/^#/, '');
+  return text ? new URLSearchParams(text) : null;
+}
+
+/**
+ * Builds a link to the current page with the given share parameters
+ */
+export function buildShareUrl(params: URLSearchParams): string {
+  return `${window.location.origin}${window.location.pathname}#${params.toString()}`;
+}
+
+/**
+ * Encodes cells as row-major indices joined by "."
+ */
+function encodeCells(cells: CellRef[], size: number): string {
+  return cells.map(({ row, col }) => row * size + col).join('.');
+}
+
+function decodeCells(text: string, size: number): CellRef[] | null {
+  const cells: CellRef[] = [];
+  for (const part of text.split('.')) {
+    const index = Number(part);
+    if (part === '' || !Number.isInteger(index) || index < 0 || index >= size * size) return null;
+    cells.push({ row: Math.floor(index / size), col: index % size });
+  }
+  return cells;
+}
+
+/**
+ * Encodes a Memoku puzzle
+ * g: the grid as in the text format, s: stars as color letter + cell index,
+ * r: region per cell (only for jigsaw layouts), c: constraints separated by "-"
+ */
+export function encodeMemokuState({ grid, stars, layout, constraints }: MemokuShareState): URLSearchParams {
+  const size = layout.size;
+  const params = new URLSearchParams({ g: formatMemokuText(grid) });
+
+  if (stars.length > 0) {
+    params.set('s', stars.map(s => `${STAR_CODES[s.color]}${s.row * size + s.col}`).join('-'));
+  }
+
+  const standard = createStandardLayout(size);
+  const regions = layout.regions.flat();
+  if (regions.some((region, cell) => region !== standard.regions[Math.floor(cell / size)][cell % size])) {
+    params.set('r', regions.join(''));
+  }
+
+  if (constraints.length > 0) {
+    params.set('c', constraints.map(constraint => {
+      switch (constraint.type) {
+        case 'diagonal':
+          return 'd';
+        case 'cage':
+          return `k${constraint.sum}_${encodeCells(constraint.cells, size)}`;
+        case 'thermometer':
+          return `t_${encodeCells(constraint.cells, size)}`;
+        case 'parity':
+          return `${constraint.parity === 'odd' ? 'o' : 'e'}${encodeCells([constraint.cell], size)}`;
+      }
+    }).join('-'));
+  }
+
+  return params;
+}
+
+function decodeMemokuConstraint(token: string, size: number): MemokuConstraint | null {
+  if (token === 'd') return { type: 'diagonal' };
+
+  const cage = token.match(/^k(\d+)_(.+)$/);
+  if (cage) {
+    const cells = decodeCells(cage[2], size);
+    return cells ? { type: 'cage', cells, sum: Number(cage[1]) } : null;
+  }
+
+  const thermometer = token.match(/^t_(.+)$/);
+  if (thermometer) {
+    const cells = decodeCells(thermometer[1], size);
+    return cells ? { type: 'thermometer', cells } : null;
+  }
+
+  const parity = token.match(/^([oe])(\d+)$/);
+  if (parity) {
+    const cells = decodeCells(parity[2], size);
+    return cells ? { type: 'parity', cell: cells[0], parity: parity[1] === 'o' ? 'odd' : 'even' } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Decodes a Memoku puzzle written by encodeMemokuState
+ */
+export function decodeMemokuState(params: URLSearchParams): ParseResult<MemokuShareState> {
+  const parsedGrid = parseMemokuText(params.get('g') ?? '');
+  if (!parsedGrid.ok) return parsedGrid;
+
+  const grid = parsedGrid.value;
+  const size = grid.length;
+
+  const stars: StarCell[] = [];
+  const starText = params.get('s');
+  for (const token of starText ? starText.split('-') : []) {
+    const color = (Object.keys(STAR_CODES) as StarCell['color'][]).find(c => STAR_CODES[c] === token[0]);
+    const cells = decodeCells(token.slice(1), size);
+    if (!color || !cells || stars.some(s => s.color === color)) {
+      return { ok: false, error: `Invalid star "${token}".` };
+    }
+    stars.push({ ...cells[0], color });
+  }
+
+  let layout = createStandardLayout(size);
+  const regionText = params.get('r');
+  if (regionText) {
+    if (regionText.length !== size * size || !/^\d+$/.test(regionText)) {
+      return { ok: false, error: `The region map needs one digit per cell (${size * size}).` };
+    }
+    layout = {
+      size,
+      regions: Array.from({ length: size }, (_, row) =>
+        Array.from({ length: size }, (_, col) => Number(regionText[row * size + col]))
+      ),
+    };
+    const layoutError = validateLayout(layout);
+    if (layoutError) return { ok: false, error: layoutError };
+  }
+
+  const constraints: MemokuConstraint[] = [];
+  const constraintText = params.get('c');
+  for (const token of constraintText ? constraintText.split('-') : []) {
+    const constraint = decodeMemokuConstraint(token, size);
+    if (!constraint) return { ok: false, error: `Invalid constraint "${token}".` };
+    constraints.push(constraint);
+  }
+  const constraintError = validateConstraints(constraints, size);
+  if (constraintError) return { ok: false, error: constraintError };
+
+  return { ok: true, value: { grid, stars, layout, constraints } };
+}
+
+/**
+ * Encodes Typeshift columns as c=MWSB-LAIT-SGOE
+ */
+export function encodeTypeshiftState(columns: TypeshiftColumn[]): URLSearchParams {
+  return new URLSearchParams({
+    c: columns.map(column => column.letters.filter(Boolean).join('')).filter(Boolean).join('-'),
+  });
+}
+
+export function decodeTypeshiftState(params: URLSearchParams): ParseResult<TypeshiftColumn[]> {
+  return parseTypeshiftText((params.get('c') ?? '').replace(/-/g, ' '));
+}
+
+/**
+ * Encodes the Wordbind source phrase as w=SAMPLE+CARD, followed by any rules that differ
+ * from the defaults: d and l for doubles per word and per source letter, n and m for the
+ * minimum and maximum length, and x for the exclusions that are on (e.g. x=sp)
+ */
+export function encodeWordbindState(sourceText: string, rules: WordbindRules): URLSearchParams {
+  const params = new URLSearchParams({ w: sourceText.trim().toUpperCase() });
+
+  if (rules.doublesPerWord !== DEFAULT_WORDBIND_RULES.doublesPerWord) {
+    params.set('d', String(rules.doublesPerWord));
+  }
+  if (rules.doublesPerSourceLetter !== DEFAULT_WORDBIND_RULES.doublesPerSourceLetter) {
+    params.set('l', String(rules.doublesPerSourceLetter));
+  }
+  if (rules.minLength !== DEFAULT_WORDBIND_RULES.minLength) params.set('n', String(rules.minLength));
+  if (rules.maxLength !== null) params.set('m', String(rules.maxLength));
+
+  const exclusions = Object.keys(EXCLUSION_CODES) as (keyof typeof EXCLUSION_CODES)[];
+  if (exclusions.some(rule => rules[rule] !== DEFAULT_WORDBIND_RULES[rule])) {
+    params.set('x', exclusions.filter(rule => rules[rule]).map(rule => EXCLUSION_CODES[rule]).join(''));
+  }
+
+  return params;
+}
+
+/**
+ * Decodes a Wordbind puzzle written by encodeWordbindState
+ * Rules left out of the link keep their defaults
+ */
+export function decodeWordbindState(params: URLSearchParams): ParseResult<WordbindShareState> {
+  const parsedSource = parseWordbindText(params.get('w') ?? '');
+  if (!parsedSource.ok) return parsedSource;
+
+  const readCount = (key: string, fallback: number): number => {
+    const text = params.get(key);
+    if (text === null) return fallback;
+    // Anything but a whole number fails validation below
+    return /^\d+$/.test(text) ? Number(text) : NaN;
+  };
+  const rules: WordbindRules = {
+    doublesPerWord: readCount('d', DEFAULT_WORDBIND_RULES.doublesPerWord),
+    doublesPerSourceLetter: readCount('l', DEFAULT_WORDBIND_RULES.doublesPerSourceLetter),
+    minLength: readCount('n', DEFAULT_WORDBIND_RULES.minLength),
+    maxLength: params.has('m') ? readCount('m', 0) : null,
+    excludeSourceWords: DEFAULT_WORDBIND_RULES.excludeSourceWords,
+    excludeSourcePlurals: DEFAULT_WORDBIND_RULES.excludeSourcePlurals,
+    excludeSourceDerivatives: DEFAULT_WORDBIND_RULES.excludeSourceDerivatives,
+  };
+
+  const exclusionText = params.get('x');
+  if (exclusionText !== null) {
+    if (!/^[spd]*$/.test(exclusionText)) return { ok: false, error: `Invalid exclusions "${exclusionText}".` };
+    for (const [rule, code] of Object.entries(EXCLUSION_CODES) as [keyof typeof EXCLUSION_CODES, string][]) {
+      rules[rule] = exclusionText.includes(code);
+    }
+  }
+
+  const rulesError = validateWordbindRules(rules);
+  if (rulesError) return { ok: false, error: rulesError };
+
+  return { ok: true, value: { sourceText: parsedSource.value, rules } };
+}
+
+/**
+ * Encodes a Spelltower grid, one character per tile except starred ones:
+ * uppercase letter = normal, lowercase = red, "*" + letter = starred,
+ * "_" = blank tile, "." = empty space
+ */
+export function encodeSpelltowerState(grid: Grid): URLSearchParams {
+  return new URLSearchParams({
+    g: grid.flat().map(cell => {
+      if (cell.type === 'blank') return '_';
+      if (!cell.letter) return '.';
+      if (cell.type === 'red') return cell.letter.toLowerCase();
+      if (cell.type === 'starred') return `*${cell.letter}`;
+      return cell.letter;
+    }).join(''),
+  });
+}
+
+export function decodeSpelltowerState(params: URLSearchParams): ParseResult<Grid> {
+  const text = params.get('g') ?? '';
+  const cells: Cell[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '_') {
+      cells.push({ letter: '', type: 'blank' });
+    } else if (char === '.') {
+      cells.push({ letter: '', type: 'letter' });
+    } else if (char === '*' && /[A-Z]/.test(text[i + 1] ?? '')) {
+      cells.push({ letter: text[++i], type: 'starred' });
+    } else if (/[A-Z]/.test(char)) {
+      cells.push({ letter: char, type: 'letter' });
+    } else if (/[a-z]/.test(char)) {
+      cells.push({ letter: char.toUpperCase(), type: 'red' });
+    } else {
+      return { ok: false, error: `Unexpected "${char}" in the shared grid.` };
+    }
+  }
+
+  if (cells.length !== SPELLTOWER_ROWS * SPELLTOWER_COLS) {
+    return {
+      ok: false,
+      error: `The shared grid has ${cells.length} tiles; it needs ${SPELLTOWER_ROWS * SPELLTOWER_COLS}.`,
+    };
+  }
+
+  return {
+    ok: true,
+    value: Array.from({ length: SPELLTOWER_ROWS }, (_, row) =>
+      cells.slice(row * SPELLTOWER_COLS, (row + 1) * SPELLTOWER_COLS)
+    ),
+  };
+}
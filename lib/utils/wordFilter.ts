@@ -0,0 +1,70 @@
+/**
+ * Filtering and sorting for word result lists
+ */
+
+import { getWordCommonScore } from './wordScore';
+
+export type TextMatchMode = 'contains' | 'starts' | 'ends';
+
+export type WordSort = 'length' | 'alphabetical' | 'common';
+
+export interface WordFilter {
+  /** Letters to look for, matched according to mode */
+  text: string;
+  mode: TextMatchMode;
+  /** Letter pattern with "_" (or "?") for any letter, e.g. "_A__ER"; empty for no pattern */
+  pattern: string;
+}
+
+export const EMPTY_WORD_FILTER: WordFilter = { text: '', mode: 'contains', pattern: '' };
+
+/**
+ * Checks a word against a letter pattern
+ * The word must be the pattern's length; "_" and "?" match any letter
+ */
+export function matchesPattern(word: string, pattern: string): boolean {
+  if (word.length !== pattern.length) return false;
+
+  const upper = word.toUpperCase();
+  const upperPattern = pattern.toUpperCase();
+  for (let i = 0; i < upperPattern.length; i++) {
+    const expected = upperPattern[i];
+    if (expected !== '_' && expected !== '?' && expected !== upper[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Checks a word against the text and pattern parts of a filter
+ * Empty parts match every word
+ */
+export function matchesWordFilter(word: string, filter: WordFilter): boolean {
+  const upper = word.toUpperCase();
+  const text = filter.text.trim().toUpperCase();
+
+  if (text) {
+    if (filter.mode === 'starts' && !upper.startsWith(text)) return false;
+    if (filter.mode === 'ends' && !upper.endsWith(text)) return false;
+    if (filter.mode === 'contains' && !upper.includes(text)) return false;
+  }
+
+  const pattern = filter.pattern.trim();
+  return !pattern || matchesPattern(upper, pattern);
+}
+
+/**
+ * Comparator for a sort order
+ * Longest first, A-Z, or most common first; ties fall back to alphabetical
+ */
+export function compareWords(sort: WordSort): (a: string, b: string) => number {
+  return (a, b) => {
+    if (sort === 'length' && a.length !== b.length) {
+      return b.length - a.length;
+    }
+    if (sort === 'common') {
+      const difference = getWordCommonScore(a) - getWordCommonScore(b);
+      if (difference !== 0) return difference;
+    }
+    return a.localeCompare(b);
+  };
+}
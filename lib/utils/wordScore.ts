@@ -0,0 +1,31 @@
+/**
+ * Word commonness heuristics
+ * Shared by solvers and result lists that rank the most familiar words first
+ */
+
+/**
+ * Calculate a "commonness" score for a word (lower is better/more common)
+ * Uses multiple heuristics to estimate word frequency
+ */
+export function getWordCommonScore(word: string): number {
+  // Shorter words are generally more common
+  const lengthPenalty = word.length * 10;
+
+  // Words with common letters are generally more common
+  const commonLetters = 'etaoinshrdlu';
+  let uncommonLetterCount = 0;
+  for (const char of word.toLowerCase()) {
+    if (!commonLetters.includes(char)) {
+      uncommonLetterCount++;
+    }
+  }
+
+  // Penalize words with less common letters
+  const letterPenalty = uncommonLetterCount * 5;
+
+  // Penalize words with repeated letters (less common in general)
+  const uniqueLetters = new Set(word.toLowerCase()).size;
+  const repetitionPenalty = (word.length - uniqueLetters) * 3;
+
+  return lengthPenalty + letterPenalty + repetitionPenalty;
+}
@@ -0,0 +1,97 @@
+/**
+ * Web Worker that runs every solver off the main thread
+ * Receives SolveRequest messages and streams progress, then a result or error.
+ * Solves run one at a time in the order they arrive
+ */
+
+import { preloadDictionary } from '../dictionary';
+import { solveTypeshift } from '../solvers/typeshift';
+import { solveMemoku } from '../solvers/memoku';
+import { generateMemoku } from '../solvers/memokuGenerator';
+import { solveWordbind } from '../solvers/wordbind';
+import { solveSpelltower } from '../solvers/spelltower';
+import { ProgressCallback } from '../solvers/progress';
+import type { SolveRequest, SolverKind, SolverResults, WorkerRequest, WorkerResponse } from './solverProtocol';
+
+// Minimum time between progress messages, so the page isn't flooded
+const PROGRESS_THROTTLE_MS = 100;
+
+// Queued solves the page no longer wants
+const cancelled = new Set<number>();
+let queue: Promise<void> = Promise.resolve();
+
+function post(message: WorkerResponse): void {
+  self.postMessage(message);
+}
+
+/**
+ * Creates a progress callback that forwards at most one update per throttle window
+ */
+function createProgressReporter(id: number): ProgressCallback {
+  let lastPosted = 0;
+
+  return (progress) => {
+    const now = Date.now();
+    if (now - lastPosted < PROGRESS_THROTTLE_MS) {
+      return;
+    }
+    lastPosted = now;
+    post({ type: 'progress', id, progress });
+  };
+}
+
+/**
+ * Dispatches a request to the matching solver
+ */
+async function runRequest(request: SolveRequest): Promise<SolverResults[SolverKind]> {
+  const onProgress = createProgressReporter(request.id);
+
+  switch (request.kind) {
+    case 'typeshift':
+      return solveTypeshift(request.input.columns, onProgress);
+    case 'memoku':
+      return solveMemoku(
+        request.input.grid,
+        onProgress,
+        request.input.layout,
+        request.input.constraints
+      );
+    case 'memokuGenerator':
+      return generateMemoku(request.input, onProgress);
+    case 'wordbind':
+      return solveWordbind(request.input.sourceText, onProgress, request.input.rules);
+    case 'spelltower':
+      return solveSpelltower(request.input.grid, onProgress, request.input.options);
+  }
+}
+
+async function handleSolve(request: SolveRequest): Promise<void> {
+  if (cancelled.delete(request.id)) return;
+
+  try {
+    const result = await runRequest(request);
+    post({ type: 'result', id: request.id, result });
+  } catch (error) {
+    console.error(`Error in ${request.kind} solver:`, error);
+    post({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'preload') {
+    await preloadDictionary();
+    return;
+  }
+  if (request.type === 'cancel') {
+    cancelled.add(request.id);
+    return;
+  }
+
+  queue = queue.then(() => handleSolve(request));
+});
@@ -0,0 +1,168 @@
+/**
+ * Main-thread side of the solver worker
+ * Owns a single shared worker, routes messages to pending solves and
+ * supports cancellation through AbortSignal. The worker runs solves in the
+ * order they were sent, so the oldest pending solve is the one running
+ */
+
+import type { SolverProgress } from '../solvers/progress';
+import type {
+  SolveRequest,
+  SolverInputs,
+  SolverKind,
+  SolverResults,
+  WorkerRequest,
+  WorkerResponse,
+} from './solverProtocol';
+
+export interface RunSolverOptions {
+  onProgress?: (progress: SolverProgress) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingSolve {
+  /** Kept so queued solves can be sent again if the worker is restarted */
+  request: SolveRequest;
+  resolve: (result: SolverResults[SolverKind]) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: SolverProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingSolve>();
+
+function handleMessage(event: MessageEvent<WorkerResponse>): void {
+  const message = event.data;
+  const solve = pending.get(message.id);
+  if (!solve) return;
+
+  switch (message.type) {
+    case 'progress':
+      solve.onProgress?.(message.progress);
+      break;
+    case 'result':
+      pending.delete(message.id);
+      solve.resolve(message.result);
+      break;
+    case 'error':
+      pending.delete(message.id);
+      solve.reject(new Error(message.message));
+      break;
+  }
+}
+
+/**
+ * Gets the shared worker, creating it on first use
+ */
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', (event) => {
+      console.error('Solver worker error:', event.message);
+      resetWorker(new Error(event.message || 'Solver worker crashed'));
+    });
+  }
+  return worker;
+}
+
+/**
+ * Terminates the worker and rejects everything still in flight
+ * The next solve starts a fresh worker
+ */
+function resetWorker(reason: unknown): void {
+  worker?.terminate();
+  worker = null;
+
+  for (const solve of pending.values()) {
+    solve.reject(reason);
+  }
+  pending.clear();
+}
+
+/**
+ * Stops the running solve by replacing the worker, then hands the solves
+ * still waiting behind it to the new one
+ */
+function restartWorker(): void {
+  worker?.terminate();
+  worker = null;
+
+  for (const solve of pending.values()) {
+    send(solve.request);
+  }
+}
+
+function send(request: WorkerRequest): void {
+  getWorker().postMessage(request);
+}
+
+/**
+ * Rejects one pending solve with an AbortError, leaving the others running
+ */
+function cancelSolve(id: number): void {
+  const solve = pending.get(id);
+  if (!solve) return;
+
+  const running = pending.keys().next().value === id;
+  pending.delete(id);
+  solve.reject(new DOMException('Solve cancelled', 'AbortError'));
+
+  // Solvers are synchronous loops inside the worker, so the only way to
+  // stop one mid-flight is to terminate the worker
+  if (running) {
+    restartWorker();
+  } else {
+    send({ type: 'cancel', id });
+  }
+}
+
+/**
+ * Checks whether an error came from a cancelled solve
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Runs a solver in the background worker
+ * @param kind - Which solver to run
+ * @param input - Input payload for that solver
+ * @param options - Progress callback and abort signal
+ * @returns Promise resolving to the solver's result; rejects with an AbortError when cancelled
+ */
+export function runSolver<K extends SolverKind>(
+  kind: K,
+  input: SolverInputs[K],
+  options: RunSolverOptions = {}
+): Promise<SolverResults[K]> {
+  const { onProgress, signal } = options;
+
+  if (signal?.aborted) {
+    return Promise.reject(new DOMException('Solve cancelled', 'AbortError'));
+  }
+
+  return new Promise<SolverResults[K]>((resolve, reject) => {
+    const id = nextRequestId++;
+    const request = { type: 'solve', id, kind, input } as SolveRequest;
+
+    pending.set(id, {
+      request,
+      resolve: resolve as PendingSolve['resolve'],
+      reject,
+      onProgress,
+    });
+
+    signal?.addEventListener('abort', () => cancelSolve(id), { once: true });
+
+    send(request);
+  });
+}
+
+/**
+ * Starts the worker and loads the dictionary ahead of the first solve
+ */
+export function preloadSolverWorker(): void {
+  send({ type: 'preload' });
+}
@@ -0,0 +1,46 @@
+/**
+ * Message protocol between the pages and the solver worker
+ */
+
+import type { TypeshiftColumn, TypeshiftSolution } from '../solvers/typeshift';
+import type { SudokuGrid, MemokuConstraint, MemokuLayout, MemokuSolution } from '../solvers/memoku';
+import type { GeneratorOptions, GeneratedPuzzle } from '../solvers/memokuGenerator';
+import type { WordbindRules, WordbindSolution } from '../solvers/wordbind';
+import type { Grid, SequenceOptions, SpelltowerSolution } from '../solvers/spelltower';
+import type { SolverProgress } from '../solvers/progress';
+
+export type SolverKind = 'typeshift' | 'memoku' | 'memokuGenerator' | 'wordbind' | 'spelltower';
+
+/**
+ * Input payload for each solver
+ */
+export interface SolverInputs {
+  typeshift: { columns: TypeshiftColumn[] };
+  memoku: { grid: SudokuGrid; layout?: MemokuLayout; constraints?: MemokuConstraint[] };
+  memokuGenerator: GeneratorOptions;
+  wordbind: { sourceText: string; rules?: WordbindRules };
+  spelltower: { grid: Grid; options?: SequenceOptions };
+}
+
+/**
+ * Result payload for each solver
+ */
+export interface SolverResults {
+  typeshift: TypeshiftSolution;
+  memoku: MemokuSolution;
+  memokuGenerator: GeneratedPuzzle;
+  wordbind: WordbindSolution;
+  spelltower: SpelltowerSolution;
+}
+
+export type SolveRequest = {
+  [K in SolverKind]: { type: 'solve'; id: number; kind: K; input: SolverInputs[K] };
+}[SolverKind];
+
+// cancel drops a solve that is still queued; a running one can only be stopped by terminating the worker
+export type WorkerRequest = SolveRequest | { type: 'preload' } | { type: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: SolverProgress }
+  | { type: 'result'; id: number; result: SolverResults[SolverKind] }
+  | { type: 'error'; id: number; message: string };